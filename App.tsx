@@ -1,7 +1,7 @@
 
 
 import React, { useState, useCallback, useMemo } from 'react';
-import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
+import { LineChart, Line, BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer, ReferenceLine } from 'recharts';
 
 import { ControlPanel } from './components/ControlPanel';
 import { ThermodynamicsScene } from './components/ThermodynamicsScene';
@@ -10,10 +10,25 @@ import { BZReactionScene } from './components/BZReactionScene';
 import { BoidsScene } from './components/BoidsScene';
 import { ConvectionCellsScene } from './components/ConvectionCellsScene';
 import { ExplanationModal } from './components/ExplanationModal';
+import { HistoryCharts } from './components/HistoryCharts';
+import { FlockCharts } from './components/FlockCharts';
+import { SpeedDistributionChart } from './components/SpeedDistributionChart';
+import { VicsekSweepChart } from './components/VicsekSweepChart';
+import { useSimulationHistory } from './hooks/useSimulationHistory';
+import { useVicsekSweep } from './hooks/useVicsekSweep';
 import { generateExplanation } from './services/geminiService';
-import type { SimulationData, SimulationParams, ReactionDiffusionParams } from './types';
+import { buildExport, downloadExport } from './services/exportService';
+import type { ExportFormat } from './services/exportService';
+import { DEFAULT_INITIAL_CONDITION } from './simulation/initialConditions';
+import { EXCITABLE_MODELS, defaultBZParams, maxStableTimestep, restState } from './simulation/excitableMedia';
+import { DEFAULT_BOIDS_PARAMS, benchmarkBoids } from './simulation/boids';
+import type { SimulationData, SimulationParams, ReactionDiffusionParams, BoidsBenchmarkResult, BoidsParams, FlockStatistics, BoundaryCondition, BrushSettings, BZModel, BZParams, BZPointerSettings, InitialCondition, ObstaclePreset, VisualizationType, WaveStatistics } from './types';
 
-type VisualizationType = 'thermodynamics' | 'reaction-diffusion' | 'bz-reaction' | 'boids' | 'convection-cells';
+// Flux and entropy rates are small per-step quantities; switch to exponent form below 0.01.
+const formatMetric = (value: number) =>
+  value !== 0 && Math.abs(value) < 0.01 ? value.toExponential(3) : value.toFixed(4);
+
+const formatWaveMetric = (value: number | null) => (value === null ? '–' : value.toFixed(2));
 
 const App: React.FC = () => {
   const [visualization, setVisualization] = useState<VisualizationType>('thermodynamics');
@@ -23,18 +38,79 @@ const App: React.FC = () => {
     particleCount: 500,
     heat: 0.05,
     isPaused: false,
+    seed: 1,
+    wallModel: 'diffuse',
+    hotTemperature: 0.004,
+    coldTemperature: 0.001,
+    averagingWindow: 600,
   });
   const [simulationData, setSimulationData] = useState<SimulationData>({
+    time: 0,
     temperatureGradient: [],
     entropyProduction: 0,
     systemState: 'Initializing',
+    heatFlux: { hot: 0, cold: 0 },
+    boundaryHeatFlux: [],
+    localEntropyProduction: [],
+    thermalConductivity: 0,
+    speedDistribution: { binCenters: [], global: null, slices: [] },
+    relaxationTime: null,
+    stateEvents: [],
   });
+  const thermoHistory = useSimulationHistory({ length: 600, sampleInterval: 10 });
+  const recordThermoHistory = thermoHistory.record;
   
   // Reaction-Diffusion state
   const [rdParams, setRdParams] = useState<ReactionDiffusionParams>({
     feed: 0.055,
     kill: 0.062,
   });
+  const [rdBrush, setRdBrush] = useState<BrushSettings>({
+    enabled: false,
+    mode: 'add-v',
+    radius: 0.15,
+    softness: 0.5,
+  });
+  const [rdUndoRequest, setRdUndoRequest] = useState(0);
+  const [rdUndoDepth, setRdUndoDepth] = useState(0);
+  const [rdInitialCondition, setRdInitialCondition] = useState<InitialCondition>(DEFAULT_INITIAL_CONDITION);
+  const [rdRestartRequest, setRdRestartRequest] = useState(0);
+  // Periodic in both directions matches the closed surface of the knot.
+  const [rdBoundary, setRdBoundary] = useState<BoundaryCondition>({ mode: 'periodic', value: [1, 0] });
+  const [rdObstaclePreset, setRdObstaclePreset] = useState<ObstaclePreset>('none');
+  const [rdObstacleRequest, setRdObstacleRequest] = useState(0);
+
+  // BZ state: a broken wave front, which curls into a rotating spiral.
+  const [bzModel, setBzModel] = useState<BZModel>('barkley');
+  const [bzParams, setBzParams] = useState<BZParams>(() => defaultBZParams(EXCITABLE_MODELS.barkley));
+  const [bzBoundary, setBzBoundary] = useState<BoundaryCondition>(() => ({
+    mode: 'neumann',
+    value: restState(EXCITABLE_MODELS.barkley, EXCITABLE_MODELS.barkley.defaults),
+  }));
+  const [bzInitialCondition, setBzInitialCondition] = useState<InitialCondition>({
+    ...DEFAULT_INITIAL_CONDITION,
+    kind: 'broken-wave',
+    patchSize: 6,
+  });
+  const [bzRestartRequest, setBzRestartRequest] = useState(0);
+  const [bzClearRequest, setBzClearRequest] = useState(0);
+  const [bzPointer, setBzPointer] = useState<BZPointerSettings>({ tool: 'stimulate', obstacleRadius: 0.02 });
+  const [bzObstaclePreset, setBzObstaclePreset] = useState<ObstaclePreset>('none');
+  const [bzObstacleRequest, setBzObstacleRequest] = useState(0);
+  const [bzUndoRequest, setBzUndoRequest] = useState(0);
+  const [bzUndoDepth, setBzUndoDepth] = useState(0);
+  const [bzStatistics, setBzStatistics] = useState<WaveStatistics | null>(null);
+
+  // Boids state
+  const [boidsParams, setBoidsParams] = useState<BoidsParams>(DEFAULT_BOIDS_PARAMS);
+  const [boidsRestartRequest, setBoidsRestartRequest] = useState(0);
+  const [boidsBenchmark, setBoidsBenchmark] = useState<BoidsBenchmarkResult[] | null>(null);
+  const [isBenchmarkingBoids, setIsBenchmarkingBoids] = useState(false);
+  const [flockStatistics, setFlockStatistics] = useState<FlockStatistics | null>(null);
+  // Ten minutes of samples, long enough for several predator–prey cycles.
+  const flockHistory = useSimulationHistory<FlockStatistics>({ length: 1200, sampleInterval: 1 });
+  const recordFlockHistory = flockHistory.record;
+  const vicsekSweep = useVicsekSweep();
 
   // Modal and Explanation state
   const [isModalOpen, setIsModalOpen] = useState(false);
@@ -45,10 +121,85 @@ const App: React.FC = () => {
     setThermoParams(prev => ({ ...prev, ...newParams }));
   }, []);
 
+  const handleSimulationData = useCallback((data: SimulationData) => {
+    setSimulationData(data);
+    recordThermoHistory(data);
+  }, [recordThermoHistory]);
+
   const handleRdParamsChange = useCallback((newParams: Partial<ReactionDiffusionParams>) => {
     setRdParams(prev => ({ ...prev, ...newParams }));
   }, []);
 
+  const handleRdBrushChange = useCallback((newBrush: Partial<BrushSettings>) => {
+    setRdBrush(prev => ({ ...prev, ...newBrush }));
+  }, []);
+
+  const handleRdInitialConditionChange = useCallback((newCondition: Partial<InitialCondition>) => {
+    setRdInitialCondition(prev => ({ ...prev, ...newCondition }));
+  }, []);
+
+  const handleBzInitialConditionChange = useCallback((newCondition: Partial<InitialCondition>) => {
+    setBzInitialCondition(prev => ({ ...prev, ...newCondition }));
+  }, []);
+
+  const handleRdBoundaryChange = useCallback((newBoundary: Partial<BoundaryCondition>) => {
+    setRdBoundary(prev => ({ ...prev, ...newBoundary }));
+  }, []);
+
+  const handleBzBoundaryChange = useCallback((newBoundary: Partial<BoundaryCondition>) => {
+    setBzBoundary(prev => ({ ...prev, ...newBoundary }));
+  }, []);
+
+  // Choosing a preset (including 'none') replaces whatever has been painted.
+  const handleRdObstaclePresetChange = useCallback((preset: ObstaclePreset) => {
+    setRdObstaclePreset(preset);
+    setRdObstacleRequest(n => n + 1);
+  }, []);
+
+  const handleBzObstaclePresetChange = useCallback((preset: ObstaclePreset) => {
+    setBzObstaclePreset(preset);
+    setBzObstacleRequest(n => n + 1);
+  }, []);
+
+  const handleFlockStatistics = useCallback((statistics: FlockStatistics) => {
+    setFlockStatistics(statistics);
+    recordFlockHistory(statistics);
+  }, [recordFlockHistory]);
+
+  const handleBoidsParamsChange = useCallback((newParams: Partial<BoidsParams>) => {
+    setBoidsParams(prev => ({ ...prev, ...newParams }));
+  }, []);
+
+  // The benchmark yields to the browser between steps, so the button can
+  // show that it is running.
+  const handleBoidsBenchmark = useCallback(() => {
+    setIsBenchmarkingBoids(true);
+    benchmarkBoids(boidsParams)
+      .then(setBoidsBenchmark)
+      .finally(() => setIsBenchmarkingBoids(false));
+  }, [boidsParams]);
+
+  const handleBzPointerChange = useCallback((newPointer: Partial<BZPointerSettings>) => {
+    setBzPointer(prev => ({ ...prev, ...newPointer }));
+  }, []);
+
+  // Each model has its own scales, so switching model restores its defaults
+  // and moves the Dirichlet value to the new resting state.
+  const handleBzModelChange = useCallback((model: BZModel) => {
+    const excitableModel = EXCITABLE_MODELS[model];
+    setBzModel(model);
+    setBzParams(defaultBZParams(excitableModel));
+    setBzBoundary(prev => ({ ...prev, value: restState(excitableModel, excitableModel.defaults) }));
+  }, []);
+
+  // Keeps dt within the explicit-diffusion stability limit as D changes.
+  const handleBzParamsChange = useCallback((newParams: Partial<BZParams>) => {
+    setBzParams(prev => {
+      const next = { ...prev, ...newParams };
+      return { ...next, dt: Math.min(next.dt, maxStableTimestep(EXCITABLE_MODELS[bzModel], next.diffusion)) };
+    });
+  }, [bzModel]);
+
   const handleExplain = async () => {
     setIsModalOpen(true);
     setIsLoadingExplanation(true);
@@ -64,11 +215,22 @@ const App: React.FC = () => {
     }
   };
 
+  const handleExport = (format: ExportFormat) => {
+    const samples = thermoHistory.history.length > 0 ? thermoHistory.history : [simulationData];
+    downloadExport(buildExport(visualization, thermoParams, samples), format);
+  };
+
   const chartData = useMemo(() => 
     simulationData.temperatureGradient.map((temp, index) => ({
       name: `Slice ${index + 1}`,
       temperature: temp.toFixed(4),
     })), [simulationData.temperatureGradient]);
+
+  const entropyChartData = useMemo(() =>
+    simulationData.localEntropyProduction.map((sigma, index) => ({
+      name: `Slice ${index + 1}`,
+      sigma: Number(sigma.toPrecision(4)),
+    })), [simulationData.localEntropyProduction]);
   
   const VisualizationSelector: React.FC = () => (
     <div className="p-4 bg-brand-d-brown rounded-lg">
@@ -116,13 +278,40 @@ const App: React.FC = () => {
   const renderVisualization = () => {
     switch(visualization) {
         case 'thermodynamics':
-            return <ThermodynamicsScene params={thermoParams} onDataUpdate={setSimulationData} />;
+            return <ThermodynamicsScene params={thermoParams} onDataUpdate={handleSimulationData} />;
         case 'reaction-diffusion':
-            return <ReactionDiffusionScene params={rdParams} />;
+            return (
+                <ReactionDiffusionScene
+                    params={rdParams}
+                    boundary={rdBoundary}
+                    initialCondition={rdInitialCondition}
+                    restartRequest={rdRestartRequest}
+                    brush={rdBrush}
+                    undoRequest={rdUndoRequest}
+                    onUndoDepthChange={setRdUndoDepth}
+                    obstaclePreset={rdObstaclePreset}
+                    obstacleRequest={rdObstacleRequest}
+                />
+            );
         case 'bz-reaction':
-            return <BZReactionScene />;
+            return (
+                <BZReactionScene
+                    model={bzModel}
+                    params={bzParams}
+                    boundary={bzBoundary}
+                    initialCondition={bzInitialCondition}
+                    restartRequest={bzRestartRequest}
+                    clearRequest={bzClearRequest}
+                    pointer={bzPointer}
+                    obstaclePreset={bzObstaclePreset}
+                    obstacleRequest={bzObstacleRequest}
+                    undoRequest={bzUndoRequest}
+                    onUndoDepthChange={setBzUndoDepth}
+                    onWaveStatistics={setBzStatistics}
+                />
+            );
         case 'boids':
-            return <BoidsScene />;
+            return <BoidsScene params={boidsParams} restartRequest={boidsRestartRequest} onStatistics={handleFlockStatistics} />;
         case 'convection-cells':
             return <ConvectionCellsScene />;
         default:
@@ -139,26 +328,83 @@ const App: React.FC = () => {
                     <div className="grid grid-cols-2 gap-4 mb-4 text-center">
                         <div className="bg-brand-m-brown p-3 rounded-md">
                             <p className="text-xs text-brand-tan/80">Entropy Production</p>
-                            <p className="text-xl font-mono text-brand-red">{simulationData.entropyProduction.toFixed(4)}</p>
+                            <p className="text-xl font-mono text-brand-red">{formatMetric(simulationData.entropyProduction)}</p>
                         </div>
                         <div className="bg-brand-m-brown p-3 rounded-md">
                             <p className="text-xs text-brand-tan/80">System State</p>
                             <p className="text-lg font-semibold text-brand-red">{simulationData.systemState}</p>
                         </div>
+                        <div className="bg-brand-m-brown p-3 rounded-md">
+                            <p className="text-xs text-brand-tan/80">Heat In (hot wall)</p>
+                            <p className="text-sm font-mono text-brand-red">{formatMetric(simulationData.heatFlux.hot)}</p>
+                        </div>
+                        <div className="bg-brand-m-brown p-3 rounded-md">
+                            <p className="text-xs text-brand-tan/80">Heat Out (cold wall)</p>
+                            <p className="text-sm font-mono text-brand-red">{formatMetric(simulationData.heatFlux.cold)}</p>
+                        </div>
+                        <div className="bg-brand-m-brown p-3 rounded-md">
+                            <p className="text-xs text-brand-tan/80">Thermal Conductivity (κ = J / ∇T)</p>
+                            <p className="text-sm font-mono text-brand-red">{formatMetric(simulationData.thermalConductivity)}</p>
+                        </div>
+                        <div className="bg-brand-m-brown p-3 rounded-md">
+                            <p className="text-xs text-brand-tan/80">Relaxation Time</p>
+                            <p className="text-sm font-mono text-brand-red">
+                              {simulationData.relaxationTime === null ? '–' : `${Math.round(simulationData.relaxationTime)} steps`}
+                            </p>
+                        </div>
                     </div>
+                    <h3 className="text-md font-semibold mb-2 text-brand-tan">State Changes</h3>
+                    <ul className="text-xs font-mono bg-brand-m-brown rounded-md p-2 mb-4 max-h-28 overflow-y-auto space-y-1">
+                        {simulationData.stateEvents.length === 0 && <li className="text-brand-tan/60">No transitions yet</li>}
+                        {[...simulationData.stateEvents].reverse().map(event => (
+                            <li key={event.id} title={event.reason}>
+                                <span className="text-brand-tan/60">#{event.time}</span> {event.from} → <span className="text-brand-red">{event.to}</span>
+                                <span className="block text-brand-tan/60 truncate">{event.reason}</span>
+                            </li>
+                        ))}
+                    </ul>
                     <h3 className="text-md font-semibold mb-2 text-brand-tan">Temperature Gradient</h3>
                     <div className="w-full h-48">
                         <ResponsiveContainer width="100%" height="100%">
                             <LineChart data={chartData} margin={{ top: 5, right: 20, left: -10, bottom: 5 }}>
                                 <CartesianGrid strokeDasharray="3 3" stroke="#59453c" />
                                 <XAxis dataKey="name" tick={{ fill: '#a78a70' }} fontSize={10} />
-                                <YAxis tick={{ fill: '#a78a70' }} fontSize={10} domain={['dataMin', 'dataMax']} />
+                                <YAxis tick={{ fill: '#a78a70' }} fontSize={10} domain={thermoParams.wallModel === 'ad-hoc' ? ['dataMin', 'dataMax'] : [0, 'auto']} />
                                 <Tooltip contentStyle={{ backgroundColor: '#362222', border: 'none' }} labelStyle={{ color: '#a78a70' }} />
                                 <Legend wrapperStyle={{fontSize: "12px"}}/>
                                 <Line type="monotone" dataKey="temperature" stroke="#7c1f23" strokeWidth={2} dot={false} />
+                                {thermoParams.wallModel !== 'ad-hoc' && (
+                                  <>
+                                    <ReferenceLine y={thermoParams.hotTemperature} stroke="#e04848" strokeDasharray="4 4" label={{ value: 'T hot', fill: '#a78a70', fontSize: 10, position: 'insideTopRight' }} />
+                                    <ReferenceLine y={thermoParams.coldTemperature} stroke="#4878e0" strokeDasharray="4 4" label={{ value: 'T cold', fill: '#a78a70', fontSize: 10, position: 'insideBottomLeft' }} />
+                                  </>
+                                )}
                             </LineChart>
                         </ResponsiveContainer>
                     </div>
+                    <h3 className="text-md font-semibold mt-4 mb-2 text-brand-tan">Local Entropy Production (σ = J·∇(1/T))</h3>
+                    <div className="w-full h-40">
+                        <ResponsiveContainer width="100%" height="100%">
+                            <BarChart data={entropyChartData} margin={{ top: 5, right: 20, left: -10, bottom: 5 }}>
+                                <CartesianGrid strokeDasharray="3 3" stroke="#59453c" />
+                                <XAxis dataKey="name" tick={{ fill: '#a78a70' }} fontSize={10} />
+                                <YAxis tick={{ fill: '#a78a70' }} fontSize={10} />
+                                <Tooltip contentStyle={{ backgroundColor: '#362222', border: 'none' }} labelStyle={{ color: '#a78a70' }} />
+                                <Bar dataKey="sigma" fill="#7c1f23" />
+                            </BarChart>
+                        </ResponsiveContainer>
+                    </div>
+                    <div className="mt-4">
+                        <SpeedDistributionChart distribution={simulationData.speedDistribution} />
+                    </div>
+                    <div className="mt-4">
+                        <HistoryCharts
+                          history={thermoHistory.history}
+                          settings={thermoHistory.settings}
+                          onSettingsChange={thermoHistory.updateSettings}
+                          onClear={thermoHistory.clear}
+                        />
+                    </div>
                 </div>
             );
         case 'reaction-diffusion':
@@ -171,23 +417,82 @@ const App: React.FC = () => {
                     <p className="text-sm">
                     By adjusting the 'feed' and 'kill' rates, you can discover a wide variety of life-like structures, similar to those found on animal coats or sea shells.
                     </p>
+                    <p className="text-sm">
+                    Turn on the brush to paint perturbations onto the knot: add V to start new patterns, remove it to cut holes, then watch whether the pattern heals or spreads.
+                    </p>
                 </div>
             );
         case 'bz-reaction':
             return (
                 <div className="bg-brand-d-brown p-4 rounded-lg flex-grow flex flex-col text-brand-tan space-y-3">
+                    <h2 className="text-lg font-semibold text-brand-red">Wave Statistics</h2>
+                    <div className="grid grid-cols-2 gap-4 text-center">
+                        <div className="bg-brand-m-brown p-3 rounded-md">
+                            <p className="text-xs text-brand-tan/80">Spirals</p>
+                            <p className="text-xl font-mono text-brand-red">{bzStatistics?.spiralCount ?? '–'}</p>
+                        </div>
+                        <div className="bg-brand-m-brown p-3 rounded-md">
+                            <p className="text-xs text-brand-tan/80">Rotation Period</p>
+                            <p className="text-xl font-mono text-brand-red">{formatWaveMetric(bzStatistics?.rotationPeriod ?? null)}</p>
+                        </div>
+                        <div className="bg-brand-m-brown p-3 rounded-md">
+                            <p className="text-xs text-brand-tan/80">Wavelength</p>
+                            <p className="text-sm font-mono text-brand-red">{formatWaveMetric(bzStatistics?.wavelength ?? null)}</p>
+                        </div>
+                        <div className="bg-brand-m-brown p-3 rounded-md">
+                            <p className="text-xs text-brand-tan/80">Wave Speed</p>
+                            <p className="text-sm font-mono text-brand-red">{formatWaveMetric(bzStatistics?.waveSpeed ?? null)}</p>
+                        </div>
+                    </div>
+                    <p className="text-xs text-brand-tan/60">
+                        Times and lengths are in the model's dimensionless units. Markers show spiral cores, found as phase singularities, with the path each tip has meandered along.
+                    </p>
                     <h2 className="text-lg font-semibold text-brand-red">About BZ Reaction</h2>
                     <p className="text-sm">
-                        The Belousov-Zhabotinsky (BZ) reaction is a classic example of a non-equilibrium chemical oscillator, often called a "chemical clock."
+                        The Belousov-Zhabotinsky (BZ) reaction is an oscillating chemical reaction; in a thin unstirred layer it behaves as an excitable medium. Each point rests until a large enough disturbance triggers a burst of excitation, which spreads to its neighbours by diffusion as a travelling wave.
                     </p>
                     <p className="text-sm">
-                        This simulation models an "excitable medium." The system naturally tries to rest, but a disturbance can trigger a cascade of reactions, forming propagating waves. These waves can collide, annihilate, or form persistent rotating spirals.
+                        After firing, the medium is refractory for a while and cannot be excited again. That is why colliding waves annihilate instead of passing through each other, and why a broken wave front curls around its free end into a rotating spiral.
+                    </p>
+                    <p className="text-sm">
+                        Choose between the Barkley model, the Oregonator (a reduced model of the actual BZ chemistry) and FitzHugh-Nagumo (a neuron model with the same excitable structure). Click the surface to set off a circular target wave.
                     </p>
                 </div>
             );
         case 'boids':
             return (
                 <div className="bg-brand-d-brown p-4 rounded-lg flex-grow flex flex-col text-brand-tan space-y-3">
+                    <FlockCharts
+                        history={flockHistory.history}
+                        latest={flockStatistics}
+                        showPopulations={boidsParams.model === 'reynolds' && boidsParams.predatorMode === 'autonomous'}
+                        onClear={flockHistory.clear}
+                    />
+                    {(boidsParams.model === 'vicsek' || vicsekSweep.points.length > 0) && (
+                        <VicsekSweepChart points={vicsekSweep.points} progress={vicsekSweep.progress} />
+                    )}
+                    {boidsBenchmark && (
+                        <>
+                            <h2 className="text-lg font-semibold text-brand-red">Benchmark</h2>
+                            <table className="text-sm font-mono w-full text-right">
+                                <thead className="text-xs text-brand-tan/80">
+                                    <tr><th>Boids</th><th>Step (ms)</th><th>Max FPS</th></tr>
+                                </thead>
+                                <tbody>
+                                    {boidsBenchmark.map(({ count, stepMilliseconds }) => (
+                                        <tr key={count} className={count === boidsParams.count ? 'text-brand-red' : undefined}>
+                                            <td>{count}</td>
+                                            <td>{stepMilliseconds.toFixed(2)}</td>
+                                            <td>{Math.round(1000 / stepMilliseconds)}</td>
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                            <p className="text-xs text-brand-tan/60">
+                                Flocking step only, with the current rules, measured on this machine once fresh flocks have gathered; rendering adds to each frame.
+                            </p>
+                        </>
+                    )}
                     <h2 className="text-lg font-semibold text-brand-red">About Boids</h2>
                     <p className="text-sm">
                         This simulation models the flocking behavior of birds using Craig Reynolds' Boids algorithm. Each "boid" follows three simple rules, leading to complex, life-like swarm intelligence.
@@ -200,6 +505,18 @@ const App: React.FC = () => {
                      <p className="text-sm">
                         The red sphere acts as a predator. The boids will actively flee from it, creating dynamic and natural-looking avoidance patterns.
                     </p>
+                    <p className="text-sm">
+                        In autonomous mode a pack of hunters chases the nearest or the most isolated boid in sight. A strike at a boid surrounded by flockmates often misses: the confusion effect. Hunters starve without prey and multiply when well fed, while the flock regrows towards its initial size, so the two populations rise and fall out of phase like a Lotka–Volterra system.
+                    </p>
+                    <p className="text-sm">
+                        The cube can wrap around, reflect boids off its walls, or have them steer away from walls ahead of time. Obstacles are avoided the same way: each boid looks a short distance along its heading and turns away from any surface in its path.
+                    </p>
+                    <p className="text-sm">
+                        With several species, each has its own colour, speed and perception, and an interaction matrix scales how strongly each species aligns with, gathers towards and keeps apart from every other. Negative weights turn attraction into avoidance, so species can school together, segregate or chase one another.
+                    </p>
+                    <p className="text-sm">
+                        The Vicsek model strips flocking down to one rule: every particle moves at a constant speed v₀ and takes the mean heading of its neighbours within radius r, turned at random by up to η·π. At low noise the particles all move one way; above a critical noise, which rises with density, the order is lost. This order–disorder transition of self-propelled particles is the standard example of a nonequilibrium phase transition in active matter, and the noise sweep maps it by measuring the polarization once each noise level reaches steady state.
+                    </p>
                 </div>
             );
         case 'convection-cells':
@@ -239,8 +556,44 @@ const App: React.FC = () => {
           onThermoParamsChange={handleThermoParamsChange}
           rdParams={rdParams}
           onRdParamsChange={handleRdParamsChange}
+          rdBrush={rdBrush}
+          onRdBrushChange={handleRdBrushChange}
+          rdUndoDepth={rdUndoDepth}
+          onRdUndo={() => setRdUndoRequest(n => n + 1)}
+          rdInitialCondition={rdInitialCondition}
+          onRdInitialConditionChange={handleRdInitialConditionChange}
+          onRdRestart={() => setRdRestartRequest(n => n + 1)}
+          rdBoundary={rdBoundary}
+          onRdBoundaryChange={handleRdBoundaryChange}
+          rdObstaclePreset={rdObstaclePreset}
+          onRdObstaclePresetChange={handleRdObstaclePresetChange}
+          bzModel={bzModel}
+          onBzModelChange={handleBzModelChange}
+          bzParams={bzParams}
+          onBzParamsChange={handleBzParamsChange}
+          onBzClear={() => setBzClearRequest(n => n + 1)}
+          bzBoundary={bzBoundary}
+          onBzBoundaryChange={handleBzBoundaryChange}
+          bzPointer={bzPointer}
+          onBzPointerChange={handleBzPointerChange}
+          bzUndoDepth={bzUndoDepth}
+          onBzUndo={() => setBzUndoRequest(n => n + 1)}
+          bzObstaclePreset={bzObstaclePreset}
+          onBzObstaclePresetChange={handleBzObstaclePresetChange}
+          bzInitialCondition={bzInitialCondition}
+          onBzInitialConditionChange={handleBzInitialConditionChange}
+          onBzRestart={() => setBzRestartRequest(n => n + 1)}
+          boidsParams={boidsParams}
+          onBoidsParamsChange={handleBoidsParamsChange}
+          onBoidsRestart={() => setBoidsRestartRequest(n => n + 1)}
+          onBoidsBenchmark={handleBoidsBenchmark}
+          isBenchmarkingBoids={isBenchmarkingBoids}
+          onVicsekSweep={() => vicsekSweep.start(boidsParams)}
+          onCancelVicsekSweep={vicsekSweep.cancel}
+          vicsekSweepProgress={vicsekSweep.progress}
           onExplain={handleExplain} 
           isLoadingExplanation={isLoadingExplanation} 
+          onExport={handleExport}
         />
 
         {renderInfoPanel()}
@@ -1,85 +1,135 @@
-import React, { useRef, useMemo, useEffect, useState } from 'react';
-import { Canvas, useFrame, useThree, createPortal } from '@react-three/fiber';
-import { OrbitControls } from '@react-three/drei';
+import React, { useRef, useMemo, useState, useEffect, useCallback } from 'react';
+import { Canvas, useFrame, useThree } from '@react-three/fiber';
+import type { ThreeEvent } from '@react-three/fiber';
+import { OrbitControls, Line } from '@react-three/drei';
 import * as THREE from 'three';
+import type { BoundaryCondition, BrushSettings, BZModel, BZParams, BZPointerSettings, InitialCondition, ObstaclePreset, WaveStatistics } from '../types';
 import { Effects } from './Effects';
 import { Starfield } from './Starfield';
+import { BOUNDARY_MODE_INDEX, LAPLACIAN_CORNER_WEIGHT, LAPLACIAN_EDGE_WEIGHT, boundaryGlsl, glslFloat } from '../simulation/grayScott';
+import { EXCITABLE_MODELS, LAPLACIAN_SCALE, restState, toExcitableState } from '../simulation/excitableMedia';
+import type { ExcitableModel } from '../simulation/excitableMedia';
+import type { SeededRandom } from '../simulation/random';
+import { WaveAnalyzer } from '../simulation/waveAnalysis';
+import type { TipTrack } from '../simulation/waveAnalysis';
+import { useFieldSimulation, fieldVertexShader } from '../hooks/useFieldSimulation';
+import { useInitialCondition } from '../hooks/useInitialCondition';
+import { useRequestCounter } from '../hooks/useRequestCounter';
+import { useObstacleMask } from '../hooks/useObstacleMask';
+import { useFieldBrush } from '../hooks/useFieldBrush';
 
 const FBO_SIZE = 512;
 const PLANE_SIZE = 20;
 const PLANE_SEGMENTS = 256;
+const TIP_CLEARANCE = 0.2; // Height of tip markers above the highest point of the surface
+const OBSTACLE_RISE = 0.6; // Height of obstacle walls above the highest point of the surface
+const ANALYSIS_INTERVAL_MS = 50; // Minimum time between field readbacks
+const STATISTICS_INTERVAL_MS = 250; // Minimum time between statistics reports
+const READBACK_RETRY_MS = 2000; // Wait after a failed readback, doubled for each further failure up to 16×
+
+// Whether two track lists would draw the same: the same tracks, each ending at the same point.
+const sameTracks = (a: readonly TipTrack[], b: readonly TipTrack[]) =>
+  a.length === b.length && a.every((track, i) => {
+    const other = b[i];
+    const last = track.points[track.points.length - 1];
+    const otherLast = other.points[other.points.length - 1];
+    return track.id === other.id && track.points.length === other.points.length
+      && last.x === otherLast.x && last.y === otherLast.y;
+  });
 
-const simVertexShader = `
-  varying vec2 vUv;
-  void main() {
-    vUv = uv;
-    gl_Position = vec4(position, 1.0);
-  }
-`;
-
-const simFragmentShader = `
+// Euler step of an excitable medium, implicit in the loss of u where the
+// model is stiff (see ExcitableModel.stiffness); mirrored by
+// ExcitableMediumSolver in simulation/excitableMedia.ts. Only the model's
+// kinetics and bounds are compiled in; BZParams arrive as uniforms.
+// uDiffusion is D / (LAPLACIAN_SCALE h²), so it multiplies the raw stencil sum.
+// Neighbours beyond the edge follow the boundary condition (see boundaryGlsl);
+// masked neighbours read as the centre cell (no flux through obstacle walls)
+// and masked cells hold the resting state.
+const excitableFragmentShader = (model: ExcitableModel) => `
   varying vec2 vUv;
   uniform sampler2D uTexture;
+  uniform sampler2D uObstacles;
+  uniform vec2 uRestState;
   uniform vec2 uPixelSize;
   uniform vec2 uMouse;
-  uniform float uTime;
-
-  const float Du = 0.16;
-  const float Dv = 0.08;
-  const float feed = 0.03;
-  const float kill = 0.06;
-  const float dt = 2.0;
-
-  vec2 laplacian(vec2 uv) {
-    vec2 sum = vec2(0.0);
-    sum += texture2D(uTexture, uv + vec2(0.0, uPixelSize.y)).rg * 0.20;
-    sum += texture2D(uTexture, uv - vec2(0.0, uPixelSize.y)).rg * 0.20;
-    sum += texture2D(uTexture, uv + vec2(uPixelSize.x, 0.0)).rg * 0.20;
-    sum += texture2D(uTexture, uv - vec2(uPixelSize.x, 0.0)).rg * 0.20;
-    sum += texture2D(uTexture, uv + uPixelSize * vec2(1,1)).rg * 0.05;
-    sum += texture2D(uTexture, uv + uPixelSize * vec2(-1,1)).rg * 0.05;
-    sum += texture2D(uTexture, uv + uPixelSize * vec2(1,-1)).rg * 0.05;
-    sum += texture2D(uTexture, uv + uPixelSize * vec2(-1,-1)).rg * 0.05;
-    sum -= texture2D(uTexture, uv).rg;
+  uniform vec3 uParams;
+  uniform float uDiffusion;
+  uniform float uDt;
+  uniform float uStimulusRadius;
+  ${boundaryGlsl}
+
+  const float edgeWeight = ${glslFloat(LAPLACIAN_EDGE_WEIGHT)};
+  const float cornerWeight = ${glslFloat(LAPLACIAN_CORNER_WEIGHT)};
+  const vec2 boundsU = vec2(${glslFloat(model.boundsU[0])}, ${glslFloat(model.boundsU[1])});
+
+  vec2 reaction(float u, float v) {
+    ${model.reactionGlsl}
+  }
+
+  float stiffness(float u, float v) {
+    ${model.stiffnessGlsl}
+  }
+
+  float neighbourU(vec2 uv, float centre) {
+    if (isGhostValue(uv)) return uBoundaryValue.x;
+    uv = boundaryUv(uv);
+    return texture2D(uObstacles, uv).r > 0.5 ? centre : texture2D(uTexture, uv).r;
+  }
+
+  float laplacianU(vec2 uv, float centre) {
+    float sum = 0.0;
+    sum += neighbourU(uv + vec2(0.0, uPixelSize.y), centre) * edgeWeight;
+    sum += neighbourU(uv - vec2(0.0, uPixelSize.y), centre) * edgeWeight;
+    sum += neighbourU(uv + vec2(uPixelSize.x, 0.0), centre) * edgeWeight;
+    sum += neighbourU(uv - vec2(uPixelSize.x, 0.0), centre) * edgeWeight;
+    sum += neighbourU(uv + uPixelSize * vec2(1,1), centre) * cornerWeight;
+    sum += neighbourU(uv + uPixelSize * vec2(-1,1), centre) * cornerWeight;
+    sum += neighbourU(uv + uPixelSize * vec2(1,-1), centre) * cornerWeight;
+    sum += neighbourU(uv + uPixelSize * vec2(-1,-1), centre) * cornerWeight;
+    sum -= centre;
     return sum;
   }
 
   void main() {
+    if (texture2D(uObstacles, vUv).r > 0.5) {
+      gl_FragColor = vec4(uRestState, 0.0, 1.0);
+      return;
+    }
+
     vec2 state = texture2D(uTexture, vUv).rg;
-    float u = state.r;
-    float v = state.g;
-    
-    vec2 L = laplacian(vUv);
-    
-    float reaction = u * v * v;
-    
-    float u_new = u + (Du * L.x - reaction + feed * (1.0 - u)) * dt;
-    float v_new = v + (Dv * L.y + reaction - (feed + kill) * v) * dt;
-    
-    u_new = clamp(u_new, 0.0, 1.0);
-    v_new = clamp(v_new, 0.0, 1.0);
+    vec2 rates = reaction(state.r, state.g);
 
-    if (uMouse.x > 0.0 && distance(vUv, uMouse) < 0.02) {
-      u_new = 1.0;
+    float rateU = uDiffusion * laplacianU(vUv, state.r) + rates.x;
+    float u = clamp(state.r + rateU * uDt / (1.0 + stiffness(state.r, state.g) * uDt), boundsU.x, boundsU.y);
+    float v = state.g + rates.y * uDt;
+
+    if (uMouse.x > 0.0 && distance(vUv, uMouse) < uStimulusRadius) {
+      u = ${glslFloat(model.excitedU)};
     }
-    
-    gl_FragColor = vec4(u_new, v_new, 0.0, 1.0);
+
+    gl_FragColor = vec4(u, v, 0.0, 1.0);
   }
 `;
 
+// Obstacles rise as walls above the tallest wave.
 const displayVertexShader = `
   uniform sampler2D uTexture;
+  uniform sampler2D uObstacles;
   uniform float uDisplacementScale;
+  uniform vec2 uDisplayRange;
   varying vec2 vUv;
   varying float vValue;
+  varying float vObstacle;
 
   void main() {
     vUv = uv;
-    vec2 state = texture2D(uTexture, uv).rg;
-    float displacement = state.r - state.g;
+    float u = texture2D(uTexture, uv).r;
+    float displacement = clamp((u - uDisplayRange.x) / (uDisplayRange.y - uDisplayRange.x), 0.0, 1.0);
     vValue = displacement;
+    vObstacle = texture2D(uObstacles, uv).r;
 
-    vec3 displacedPosition = position + normal * displacement * uDisplacementScale;
+    float height = mix(displacement * uDisplacementScale, uDisplacementScale + ${glslFloat(OBSTACLE_RISE)}, vObstacle);
+    vec3 displacedPosition = position + normal * height;
 
     vec4 modelViewPosition = modelViewMatrix * vec4(displacedPosition, 1.0);
     gl_Position = projectionMatrix * modelViewPosition;
@@ -89,6 +139,7 @@ const displayVertexShader = `
 const displayFragmentShader = `
   varying vec2 vUv;
   varying float vValue;
+  varying float vObstacle;
 
   vec3 colorRamp(float t) {
     vec3 c1 = vec3(0.05, 0.0, 0.1);    // Deep Blue/Purple
@@ -107,6 +158,9 @@ const displayFragmentShader = `
 
   void main() {
     vec3 color = colorRamp(vValue);
+    // Wall sides, where the mask is interpolated, come out darker than the tops.
+    vec3 stone = vec3(0.55, 0.47, 0.4) * (0.5 + 0.5 * vObstacle);
+    color = mix(color, stone, smoothstep(0.0, 0.5, vObstacle));
     gl_FragColor = vec4(color, 1.0);
   }
 `;
@@ -137,73 +191,216 @@ const Ripple: React.FC<{ position: THREE.Vector3 }> = ({ position }) => {
   );
 };
 
-const BZSystem: React.FC = () => {
-  const { gl, viewport, camera: mainCamera } = useThree();
-  const [scene, camera] = useMemo(() => [new THREE.Scene(), new THREE.OrthographicCamera(-1, 1, 1, -1, 0, 1)], []);
+// Plane UV to world position; the plane lies in XZ with v running towards -z.
+const tipPosition = (x: number, y: number, height: number): [number, number, number] =>
+  [(x - 0.5) * PLANE_SIZE, height, -(y - 0.5) * PLANE_SIZE];
+
+// Spiral cores with the path each has meandered along, coloured by chirality.
+const SpiralTips: React.FC<{ tracks: TipTrack[]; height: number }> = ({ tracks, height }) => (
+  <>
+    {tracks.map(track => {
+      const color = track.charge > 0 ? '#22d3ee' : '#f0abfc';
+      const last = track.points[track.points.length - 1];
+      return (
+        <group key={track.id}>
+          <mesh position={tipPosition(last.x, last.y, height)}>
+            <sphereGeometry args={[0.15, 16, 16]} />
+            <meshBasicMaterial color={color} />
+          </mesh>
+          {track.points.length > 1 && (
+            <Line points={track.points.map(p => tipPosition(p.x, p.y, height))} color={color} lineWidth={1.5} transparent opacity={0.7} />
+          )}
+        </group>
+      );
+    })}
+  </>
+);
+
+interface BZReactionSceneProps {
+  model: BZModel;
+  params: BZParams;
+  boundary: BoundaryCondition;
+  initialCondition: InitialCondition;
+  restartRequest: number; // Incremented to restart from the initial condition
+  clearRequest: number; // Incremented to return the whole field to rest
+  pointer: BZPointerSettings;
+  obstaclePreset: ObstaclePreset;
+  obstacleRequest: number; // Incremented to replace the mask with obstaclePreset
+  undoRequest: number; // Incremented to undo the most recent obstacle stroke
+  onUndoDepthChange?: (depth: number) => void;
+  onWaveStatistics?: (statistics: WaveStatistics) => void;
+}
+
+const BZSystem: React.FC<BZReactionSceneProps> = ({
+  model: modelId,
+  params,
+  boundary,
+  initialCondition,
+  restartRequest,
+  clearRequest,
+  pointer,
+  obstaclePreset,
+  obstacleRequest,
+  undoRequest,
+  onUndoDepthChange,
+  onWaveStatistics,
+}) => {
+  const model = EXCITABLE_MODELS[modelId];
   const mouse = useRef(new THREE.Vector2(-1, -1));
+  const isDrawing = useRef(false);
+  const obstacles = useObstacleMask(FBO_SIZE, obstaclePreset, false);
+  useRequestCounter(obstacleRequest, () => obstacles.load(obstaclePreset, obstacleRequest));
   const [ripples, setRipples] = useState<{ id: number, position: THREE.Vector3 }[]>([]);
-
-  const fbo1 = useMemo(() => new THREE.WebGLRenderTarget(FBO_SIZE, FBO_SIZE, { type: THREE.FloatType }), []);
-  const fbo2 = useMemo(() => new THREE.WebGLRenderTarget(FBO_SIZE, FBO_SIZE, { type: THREE.FloatType }), []);
+  const [tracks, setTracks] = useState<TipTrack[]>([]);
+  const analyzer = useMemo(() => new WaveAnalyzer(FBO_SIZE, model), [model]);
+  const readbackPending = useRef(false);
+  const nextAnalysis = useRef(0); // performance.now() before which no readback starts
+  const readbackFailures = useRef(0); // Consecutive
+  const lastReport = useRef(0);
+  const onWaveStatisticsRef = useRef(onWaveStatistics);
+  onWaveStatisticsRef.current = onWaveStatistics;
+  const paramsRef = useRef(params);
+  paramsRef.current = params;
+  // Model time at the last frame; dt can change mid-run, so it is accumulated.
+  const clock = useRef({ steps: 0, time: 0 });
 
   const simulationMaterial = useMemo(() => new THREE.ShaderMaterial({
     uniforms: {
       uTexture: { value: null },
+      uObstacles: { value: obstacles.texture },
+      uRestState: { value: new THREE.Vector2() },
+      uBoundary: { value: 0 },
+      uBoundaryValue: { value: new THREE.Vector2() },
       uPixelSize: { value: new THREE.Vector2(1 / FBO_SIZE, 1 / FBO_SIZE) },
       uMouse: { value: mouse.current },
+      uParams: { value: new THREE.Vector3() },
+      uDiffusion: { value: 0 },
+      uDt: { value: 0 },
+      uStimulusRadius: { value: 0 },
     },
-    vertexShader: simVertexShader,
-    fragmentShader: simFragmentShader,
-  }), []);
+    vertexShader: fieldVertexShader,
+    fragmentShader: excitableFragmentShader(model),
+  }), [model, obstacles]);
 
   const displayMaterial = useMemo(() => new THREE.ShaderMaterial({
     uniforms: {
-      uTexture: { value: fbo1.texture },
-      uDisplacementScale: { value: 1.5 },
+      uTexture: { value: null },
+      uObstacles: { value: obstacles.texture },
+      uDisplacementScale: { value: 0 },
+      uDisplayRange: { value: new THREE.Vector2() },
     },
     vertexShader: displayVertexShader,
     fragmentShader: displayFragmentShader,
-  }), [fbo1.texture]);
+  }), [obstacles]);
 
   useEffect(() => {
-    const initialData = new Float32Array(FBO_SIZE * FBO_SIZE * 4);
-    for (let i = 0; i < FBO_SIZE * FBO_SIZE; i++) {
-      initialData[i * 4] = 1.0;
-      initialData[i * 4 + 1] = Math.random() > 0.98 ? 1.0 : 0.0;
-    }
-    const initialTexture = new THREE.DataTexture(initialData, FBO_SIZE, FBO_SIZE, THREE.RGBAFormat, THREE.FloatType);
-    initialTexture.needsUpdate = true;
-
-    const tempScene = new THREE.Scene();
-    const tempMesh = new THREE.Mesh(new THREE.PlaneGeometry(2, 2), new THREE.MeshBasicMaterial({ map: initialTexture }));
-    tempScene.add(tempMesh);
-    
-    gl.setRenderTarget(fbo1);
-    gl.render(tempScene, camera);
-    gl.setRenderTarget(null);
-  }, [gl, camera, fbo1]);
+    displayMaterial.uniforms.uDisplayRange.value.set(...model.displayRange);
+  }, [displayMaterial, model]);
 
-  let currentFBO = fbo1;
-  let nextFBO = fbo2;
+  useEffect(() => {
+    const { uniforms } = simulationMaterial;
+    uniforms.uParams.value.set(...params.kinetics);
+    uniforms.uRestState.value.set(...restState(model, params.kinetics));
+    uniforms.uDiffusion.value = params.diffusion / (LAPLACIAN_SCALE * model.gridSpacing ** 2);
+    uniforms.uDt.value = params.dt;
+    uniforms.uStimulusRadius.value = params.stimulusRadius;
+    displayMaterial.uniforms.uDisplacementScale.value = params.displacementScale;
+  }, [simulationMaterial, displayMaterial, model, params]);
 
-  useFrame(() => {
-    for (let i = 0; i < 2; i++) { // Run simulation twice per frame for speed
-      simulationMaterial.uniforms.uTexture.value = currentFBO.texture;
-      simulationMaterial.uniforms.uMouse.value.copy(mouse.current);
+  useEffect(() => {
+    simulationMaterial.uniforms.uBoundary.value = BOUNDARY_MODE_INDEX[boundary.mode];
+    simulationMaterial.uniforms.uBoundaryValue.value.set(...boundary.value);
+  }, [simulationMaterial, boundary]);
+
+  useEffect(() => () => simulationMaterial.dispose(), [simulationMaterial]);
+
+  // Initial conditions use the Gray-Scott convention; map them onto the model's
+  // variables. Kinetics are read through the ref so editing them doesn't restart.
+  const patternState = useInitialCondition(initialCondition, FBO_SIZE);
+  const initialState = useCallback(
+    (random: SeededRandom) => toExcitableState(model, paramsRef.current.kinetics, patternState(random)),
+    [model, patternState],
+  );
 
-      gl.setRenderTarget(nextFBO);
-      gl.render(scene, camera);
+  const simulation = useFieldSimulation({
+    size: FBO_SIZE,
+    material: simulationMaterial,
+    initialState,
+    seed: initialCondition.seed,
+    stepsPerFrame: params.stepsPerFrame,
+    onFrame: (texture) => {
+      displayMaterial.uniforms.uTexture.value = texture;
+      // A click stimulates only the steps of the frame that follows it.
+      mouse.current.set(-1, -1);
+      if (!readbackPending.current && performance.now() >= nextAnalysis.current) analyse();
+    },
+  });
 
-      [currentFBO, nextFBO] = [nextFBO, currentFBO];
+  // Obstacle strokes go through the field brush for its undo stack.
+  const obstacleBrush = useMemo<BrushSettings>(() => ({
+    enabled: pointer.tool !== 'stimulate',
+    mode: pointer.tool === 'erase-obstacle' ? 'erase-obstacle' : 'draw-obstacle',
+    radius: pointer.obstacleRadius,
+    softness: 0,
+  }), [pointer]);
+  const { beginStroke, paint, undo } = useFieldBrush(simulation, obstacleBrush, 1, onUndoDepthChange, obstacles);
+  useRequestCounter(undoRequest, undo);
+  useRequestCounter(restartRequest, simulation.reset);
+
+  const clearField = useCallback(() => {
+    const [u, v] = restState(model, paramsRef.current.kinetics);
+    const data = new Float32Array(FBO_SIZE * FBO_SIZE * 4);
+    for (let i = 0; i < data.length; i += 4) {
+      data[i] = u;
+      data[i + 1] = v;
+      data[i + 3] = 1;
     }
-    
-    gl.setRenderTarget(null);
-    displayMaterial.uniforms.uTexture.value = currentFBO.texture;
-    mouse.current.set(-1, -1);
-  });
+    simulation.load(data);
+    analyzer.reset();
+  }, [model, simulation, analyzer]);
+  useRequestCounter(clearRequest, clearField);
+
+  // Reads the field back and analyses it; a new readback starts on the first
+  // frame at least ANALYSIS_INTERVAL_MS after the previous one started and
+  // after it finished. A failed readback (some devices cannot read float
+  // targets) is retried with growing waits rather than every frame.
+  const analyse = () => {
+    readbackPending.current = true;
+    nextAnalysis.current = performance.now() + ANALYSIS_INTERVAL_MS;
+    const steps = simulation.getStepCount();
+    // A lower step count means the field was reset; the analyser restarts when time goes back.
+    if (steps < clock.current.steps) clock.current = { steps: 0, time: 0 };
+    const time = clock.current.time + (steps - clock.current.steps) * params.dt;
+    clock.current = { steps, time };
+    simulation.readPixels()
+      .then(data => {
+        readbackFailures.current = 0;
+        const statistics = analyzer.analyse(data, time);
+        const next = analyzer.tracks.map(track => ({ ...track, points: [...track.points] }));
+        setTracks(previous => (sameTracks(previous, next) ? previous : next));
+        const now = performance.now();
+        if (now - lastReport.current >= STATISTICS_INTERVAL_MS) {
+          lastReport.current = now;
+          onWaveStatisticsRef.current?.(statistics);
+        }
+      })
+      .catch(error => {
+        if (readbackFailures.current === 0) console.warn("Wave analysis readback failed:", error);
+        nextAnalysis.current = performance.now() + READBACK_RETRY_MS * 2 ** Math.min(readbackFailures.current, 4);
+        readbackFailures.current++;
+      })
+      .finally(() => {
+        readbackPending.current = false;
+      });
+  };
 
-  const handlePointerDown = (e: any) => {
+  const handlePointerDown = (e: ThreeEvent<PointerEvent>) => {
     e.stopPropagation();
+    if (pointer.tool !== 'stimulate') {
+      isDrawing.current = true;
+      if (e.uv) beginStroke(e.uv);
+      return;
+    }
     if (e.uv) mouse.current.copy(e.uv);
 
     const ripplePos = new THREE.Vector3(e.point.x, e.point.y, e.point.z + 0.1);
@@ -213,25 +410,35 @@ const BZSystem: React.FC = () => {
     }, 1000);
   };
 
+  const handlePointerMove = (e: ThreeEvent<PointerEvent>) => {
+    if (!isDrawing.current || !e.uv) return;
+    e.stopPropagation();
+    paint(e.uv);
+  };
+
+  const endDrawing = () => {
+    isDrawing.current = false;
+  };
+
   return (
     <>
-      {createPortal(
-        <mesh material={simulationMaterial}><planeGeometry args={[2, 2]} /></mesh>,
-        scene
-      )}
       <mesh
         onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={endDrawing}
+        onPointerLeave={endDrawing}
         rotation-x={-Math.PI / 2}
       >
         <planeGeometry args={[PLANE_SIZE, PLANE_SIZE, PLANE_SEGMENTS, PLANE_SEGMENTS]} />
         <primitive object={displayMaterial} attach="material" />
       </mesh>
       {ripples.map(r => <Ripple key={r.id} position={r.position} />)}
+      <SpiralTips tracks={tracks} height={params.displacementScale + TIP_CLEARANCE} />
     </>
   );
 };
 
-export const BZReactionScene: React.FC = () => {
+export const BZReactionScene: React.FC<BZReactionSceneProps> = (props) => {
     return (
       <Canvas
         camera={{ position: [0, 10, 15], fov: 75 }}
@@ -240,8 +447,9 @@ export const BZReactionScene: React.FC = () => {
         <Starfield />
         <ambientLight intensity={0.5} />
         <pointLight position={[0, 10, 0]} intensity={1} />
-        <BZSystem />
-        <OrbitControls enableDamping dampingFactor={0.1} />
+        <BZSystem {...props} />
+        {/* Obstacle tools paint on drag, so the camera only orbits while stimulating. */}
+        <OrbitControls enableDamping dampingFactor={0.1} enabled={props.pointer.tool === 'stimulate'} />
         <Effects />
       </Canvas>
     );
@@ -4,173 +4,133 @@ import React, { useRef, useMemo, useEffect } from 'react';
 import { Canvas, useFrame, useThree } from '@react-three/fiber';
 import { OrbitControls, Box } from '@react-three/drei';
 import * as THREE from 'three';
+import type { BoidsObstacle, BoidsParams, FlockStatistics } from '../types';
+import { BOIDS_BOUNDS, BoidFlock } from '../simulation/boids';
+import type { Threats } from '../simulation/boids';
+import { FlockAnalysis } from '../simulation/flockAnalysis';
+import { MAX_PREDATORS, PredatorPack } from '../simulation/predators';
 import { Effects } from './Effects';
 import { Starfield } from './Starfield';
 import { Lighting } from './Lighting';
 
-const BOID_COUNT = 500;
-const BOUNDS = 25; // Increased bounds
-
-const MAX_SPEED = 0.25;
-const MAX_FORCE = 0.01;
-
-const COHESION_WEIGHT = 1.0;
-const ALIGNMENT_WEIGHT = 1.2;
-const SEPARATION_WEIGHT = 1.5;
-const PREDATOR_WEIGHT = 2.5;
-
-const PERCEPTION_RADIUS = 3;
-const SEPARATION_DISTANCE = 1.0;
-const PREDATOR_RADIUS = 5;
-
-class Boid {
-  position: THREE.Vector3;
-  velocity: THREE.Vector3;
-  acceleration: THREE.Vector3;
-  color: THREE.Color;
-
-  constructor() {
-    this.position = new THREE.Vector3(
-      (Math.random() - 0.5) * BOUNDS,
-      (Math.random() - 0.5) * BOUNDS,
-      (Math.random() - 0.5) * BOUNDS
-    );
-    this.velocity = new THREE.Vector3(
-      (Math.random() - 0.5) * 2,
-      (Math.random() - 0.5) * 2,
-      (Math.random() - 0.5) * 2
-    ).setLength(Math.random() * MAX_SPEED);
-    this.acceleration = new THREE.Vector3();
-    this.color = new THREE.Color().setHSL(0.5 + Math.random() * 0.2, 0.7, 0.5);
-  }
+const FORWARD = new THREE.Vector3(0, 1, 0); // Axis of the cone geometry
+// Analysis visits every neighbour pair, so it runs far less often than the
+// flock steps, on a snapshot, a slice of ANALYSIS_BUDGET_MS per frame.
+const STATISTICS_INTERVAL_MS = 500;
+const ANALYSIS_BUDGET_MS = 2;
 
-  applyForce(force: THREE.Vector3) {
-    this.acceleration.add(force);
-  }
-  
-  steer(target: THREE.Vector3) {
-    const desired = new THREE.Vector3().subVectors(target, this.position);
-    desired.setLength(MAX_SPEED);
-    const steer = new THREE.Vector3().subVectors(desired, this.velocity);
-    steer.clampLength(0, MAX_FORCE);
-    return steer;
-  }
-
-  flock(boids: Boid[], predatorPosition: THREE.Vector3) {
-    const separation = new THREE.Vector3();
-    const alignment = new THREE.Vector3();
-    const cohesion = new THREE.Vector3();
-    let total = 0;
-
-    for (const other of boids) {
-      if (other === this) continue;
-      const d = this.position.distanceTo(other.position);
-      if (d > 0 && d < PERCEPTION_RADIUS) {
-        if (d < SEPARATION_DISTANCE) {
-          const diff = new THREE.Vector3().subVectors(this.position, other.position);
-          diff.normalize();
-          diff.divideScalar(d);
-          separation.add(diff);
-        }
-        alignment.add(other.velocity);
-        cohesion.add(other.position);
-        total++;
-      }
-    }
-
-    if (total > 0) {
-      alignment.divideScalar(total).setLength(MAX_SPEED);
-      const alignSteer = this.steer(this.position.clone().add(alignment));
-      this.applyForce(alignSteer.multiplyScalar(ALIGNMENT_WEIGHT));
-
-      cohesion.divideScalar(total);
-      const cohesionSteer = this.steer(cohesion);
-      this.applyForce(cohesionSteer.multiplyScalar(COHESION_WEIGHT));
-    }
-    
-    if(separation.lengthSq() > 0) {
-        separation.setLength(MAX_SPEED);
-        const separationSteer = this.steer(this.position.clone().add(separation));
-        this.applyForce(separationSteer.multiplyScalar(SEPARATION_WEIGHT));
-    }
-    
-    const dPredator = this.position.distanceTo(predatorPosition);
-    if (dPredator < PREDATOR_RADIUS) {
-      const flee = new THREE.Vector3().subVectors(this.position, predatorPosition);
-      flee.setLength(MAX_SPEED);
-      const fleeSteer = this.steer(this.position.clone().add(flee));
-      this.applyForce(fleeSteer.multiplyScalar(PREDATOR_WEIGHT));
-    }
-  }
-
-  update() {
-    this.velocity.add(this.acceleration);
-    this.velocity.clampLength(0, MAX_SPEED);
-    this.position.add(this.velocity);
-    this.acceleration.multiplyScalar(0);
-    this.wrap();
-  }
-
-  wrap() {
-    const half = BOUNDS / 2;
-    if (this.position.x > half) this.position.x = -half;
-    if (this.position.x < -half) this.position.x = half;
-    if (this.position.y > half) this.position.y = -half;
-    if (this.position.y < -half) this.position.y = half;
-    if (this.position.z > half) this.position.z = -half;
-    if (this.position.z < -half) this.position.z = half;
-  }
+interface BoidsSceneProps {
+  params: BoidsParams;
+  restartRequest: number; // Incremented to rebuild the flock and release fresh hunters
+  onStatistics?: (statistics: FlockStatistics) => void;
 }
 
-const BoidsSystem: React.FC = () => {
+const BoidsSystem: React.FC<Omit<BoidsSceneProps, 'restartRequest'>> = ({ params, onStatistics }) => {
   const meshRef = useRef<THREE.InstancedMesh>(null!);
   const predatorRef = useRef<THREE.Mesh>(null!);
-  const boids = useMemo(() => Array.from({ length: BOID_COUNT }, () => new Boid()), []);
-  const dummy = useMemo(() => new THREE.Object3D(), []);
-  
-  const { viewport, pointer, camera } = useThree();
-  const targetPredatorPosition = useMemo(() => new THREE.Vector3(), []);
+  const huntersRef = useRef<THREE.InstancedMesh>(null!);
+  // Remounted when the count changes or the populations restart (see
+  // BoidsScene), so the flock and the pack are built once.
+  const initialParamsRef = useRef(params);
+  const flock = useMemo(() => new BoidFlock(initialParamsRef.current), []);
+  const pack = useMemo(() => new PredatorPack(initialParamsRef.current), []);
+  const pointerThreat = useMemo<Threats>(() => ({ positions: new Float32Array(3), count: 1 }), []);
+  // The Vicsek model has no predators.
+  const reynolds = params.model === 'reynolds';
+  const autonomous = reynolds && params.predatorMode === 'autonomous';
 
   useEffect(() => {
-    if (!meshRef.current) return;
-    boids.forEach((boid, i) => {
-      meshRef.current!.setColorAt(i, boid.color);
-    });
-    meshRef.current.instanceColor!.needsUpdate = true;
-  }, [boids]);
+    flock.setParams(params);
+    pack.setParams(params);
+  }, [params, flock, pack]);
+
+  const onStatisticsRef = useRef(onStatistics);
+  onStatisticsRef.current = onStatistics;
+  const lastReport = useRef(-Infinity);
+  const analysis = useRef<FlockAnalysis | null>(null); // In progress
+  // Scratch objects for the per-frame instance updates.
+  const scratch = useMemo(() => ({
+    matrix: new THREE.Matrix4(),
+    position: new THREE.Vector3(),
+    heading: new THREE.Vector3(),
+    rotation: new THREE.Quaternion(),
+    scale: new THREE.Vector3(1, 1, 1),
+    pointer: new THREE.Vector3(),
+  }), []);
+  // Vicsek particles are all alike, so they all take the first species' colour.
+  const speciesColors = useMemo(
+    () => (params.model === 'vicsek' ? params.species.slice(0, 1) : params.species).map(species => new THREE.Color(species.color)),
+    [params.model, params.species],
+  );
+
+  const { pointer, camera } = useThree();
+  const targetPredatorPosition = useMemo(() => new THREE.Vector3(), []);
 
-  useFrame((state, delta) => {
-    if (!meshRef.current || !predatorRef.current) return;
-    
-    const target = new THREE.Vector3(pointer.x, pointer.y, 0.5);
+  useFrame(() => {
+    if (!meshRef.current || !predatorRef.current || !huntersRef.current) return;
+
+    const target = scratch.pointer.set(pointer.x, pointer.y, 0.5);
     target.unproject(camera);
     target.sub(camera.position).normalize();
     const distance = -camera.position.z / target.z;
     targetPredatorPosition.copy(camera.position).add(target.multiplyScalar(distance));
     predatorRef.current.position.lerp(targetPredatorPosition, 0.1);
 
-    boids.forEach(boid => {
-      boid.flock(boids, predatorRef.current.position);
-      boid.update();
-    });
+    if (autonomous) {
+      flock.step(pack);
+      pack.hunt(flock);
+      flock.reproduce();
+    } else {
+      predatorRef.current.position.toArray(pointerThreat.positions);
+      flock.step(pointerThreat);
+    }
 
-    boids.forEach((boid, i) => {
-      dummy.position.copy(boid.position);
-      dummy.lookAt(boid.position.clone().add(boid.velocity));
-      dummy.updateMatrix();
-      meshRef.current.setMatrixAt(i, dummy.matrix);
-    });
+    const now = performance.now();
+    if (!analysis.current && onStatisticsRef.current && now - lastReport.current >= STATISTICS_INTERVAL_MS) {
+      lastReport.current = now;
+      analysis.current = new FlockAnalysis(BoidFlock.fromSnapshot(flock.snapshot()), autonomous ? pack.count : 0);
+    }
+    const statistics = analysis.current?.advance(ANALYSIS_BUDGET_MS);
+    if (statistics) {
+      analysis.current = null;
+      onStatisticsRef.current?.(statistics);
+    }
+
+    // The flock reorders its boids every step, so colours are rewritten with the matrices.
+    const { positions, velocities, species } = flock;
+    const { matrix, position, heading, rotation, scale } = scratch;
+    for (let i = 0; i < flock.count; i++) {
+      position.fromArray(positions, 3 * i);
+      heading.fromArray(velocities, 3 * i);
+      if (heading.lengthSq() > 0) rotation.setFromUnitVectors(FORWARD, heading.normalize());
+      meshRef.current.setMatrixAt(i, matrix.compose(position, rotation, scale));
+      meshRef.current.setColorAt(i, speciesColors[species[i]] ?? speciesColors[0]);
+    }
 
+    meshRef.current.count = flock.count;
     meshRef.current.instanceMatrix.needsUpdate = true;
+    meshRef.current.instanceColor!.needsUpdate = true;
+
+    const hunters = huntersRef.current;
+    hunters.count = autonomous ? pack.count : 0;
+    for (let k = 0; k < hunters.count; k++) {
+      hunters.setMatrixAt(k, matrix.makeTranslation(pack.positions[3 * k], pack.positions[3 * k + 1], pack.positions[3 * k + 2]));
+    }
+    hunters.instanceMatrix.needsUpdate = true;
   });
 
   return (
     <>
-      <instancedMesh ref={meshRef} args={[undefined, undefined, BOID_COUNT]} castShadow>
+      {/* Sized for the carrying capacity; only the living boids are drawn. */}
+      <instancedMesh ref={meshRef} args={[undefined, undefined, flock.capacity]} castShadow>
         <coneGeometry args={[0.1, 0.6, 8]} />
         <meshStandardMaterial vertexColors metalness={0.8} roughness={0.3} />
       </instancedMesh>
-      <mesh ref={predatorRef} castShadow>
+      <instancedMesh ref={huntersRef} args={[undefined, undefined, MAX_PREDATORS]} castShadow>
+        <sphereGeometry args={[0.4, 16, 16]} />
+        <meshStandardMaterial color="red" emissive="red" emissiveIntensity={2} roughness={0.1} />
+      </instancedMesh>
+      <mesh ref={predatorRef} visible={reynolds && !autonomous} castShadow>
         <sphereGeometry args={[0.7, 32, 32]} />
         <meshStandardMaterial color="red" emissive="red" emissiveIntensity={2} roughness={0.1} />
       </mesh>
@@ -178,7 +138,34 @@ const BoidsSystem: React.FC = () => {
   );
 };
 
-export const BoidsScene: React.FC = () => {
+const ObstacleMesh: React.FC<{ obstacle: BoidsObstacle }> = ({ obstacle }) => {
+  const [x, y, z] = obstacle.position;
+  switch (obstacle.kind) {
+    case 'sphere':
+      return (
+        <mesh position={[x, y, z]} castShadow receiveShadow>
+          <sphereGeometry args={[obstacle.radius, 48, 48]} />
+          <meshStandardMaterial color="#6b5446" roughness={0.7} />
+        </mesh>
+      );
+    case 'column':
+      return (
+        <mesh position={[x, 0, z]} castShadow receiveShadow>
+          <cylinderGeometry args={[obstacle.radius, obstacle.radius, BOIDS_BOUNDS, 48]} />
+          <meshStandardMaterial color="#6b5446" roughness={0.7} />
+        </mesh>
+      );
+    case 'ground':
+      return (
+        <mesh rotation-x={-Math.PI / 2} position-y={y} receiveShadow>
+          <planeGeometry args={[BOIDS_BOUNDS, BOIDS_BOUNDS]} />
+          <meshStandardMaterial color="#3a2c26" roughness={0.9} side={THREE.DoubleSide} />
+        </mesh>
+      );
+  }
+};
+
+export const BoidsScene: React.FC<BoidsSceneProps> = ({ params, restartRequest, onStatistics }) => {
   return (
     <Canvas
       shadows={{ type: THREE.PCFSoftShadowMap }}
@@ -187,13 +174,15 @@ export const BoidsScene: React.FC = () => {
     >
       <Starfield />
       <Lighting />
-      <BoidsSystem />
+      {/* Remounted per count, since an instanced mesh cannot grow, and per restart. */}
+      <BoidsSystem key={`${params.count}-${restartRequest}`} params={params} onStatistics={onStatistics} />
+      {params.obstacles.map((obstacle, i) => <ObstacleMesh key={i} obstacle={obstacle} />)}
       <OrbitControls enableDamping dampingFactor={0.1} />
-      <Box args={[BOUNDS, BOUNDS, BOUNDS]} >
+      <Box args={[BOIDS_BOUNDS, BOIDS_BOUNDS, BOIDS_BOUNDS]} >
         <meshStandardMaterial color="#333" transparent opacity={0.1} wireframe />
       </Box>
-      <mesh rotation-x={-Math.PI / 2} position-y={-BOUNDS/2} receiveShadow>
-        <planeGeometry args={[BOUNDS, BOUNDS]} />
+      <mesh rotation-x={-Math.PI / 2} position-y={-BOIDS_BOUNDS/2} receiveShadow>
+        <planeGeometry args={[BOIDS_BOUNDS, BOIDS_BOUNDS]} />
         <meshStandardMaterial color="#111" metalness={0.5} roughness={0.8} />
       </mesh>
       <Effects />
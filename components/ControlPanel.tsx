@@ -1,16 +1,62 @@
 
 
 import React from 'react';
-import type { SimulationParams, ReactionDiffusionParams } from '../types';
+import type { SimulationParams, ReactionDiffusionParams, BoidsParams, BoidsModel, BoidsBoundary, BoidsObstacle, BoidsObstacleKind, BoidSpecies, SpeciesInteraction, FlockingRules, PredatorMode, PredatorTargeting, BoundaryCondition, BoundaryMode, BrushSettings, BrushMode, BZModel, BZParams, BZPointerSettings, BZPointerTool, InitialCondition, InitialConditionKind, ObstaclePreset, WallModel, VisualizationType } from '../types';
+import type { ExportFormat } from '../services/exportService';
+import { PhaseMapPicker } from './PhaseMapPicker';
+import { loadGrayImage } from '../services/imageSeeding';
+import { EXCITABLE_MODELS, defaultBZParams, maxStableTimestep } from '../simulation/excitableMedia';
+import { BOIDS_BOUNDS, MAX_PERCEPTION_RADIUS } from '../simulation/boids';
+import { MAX_BOIDS_OBSTACLES, NEW_BOIDS_OBSTACLES } from '../simulation/boidsObstacles';
+import { MAX_SPECIES, SPECIES_PRESETS, resizeSpecies } from '../simulation/boidsSpecies';
+import { MAX_PREDATORS } from '../simulation/predators';
+import { BOIDS_PRESETS } from '../simulation/boidsPresets';
+import type { BoidsPreset } from '../simulation/boidsPresets';
 
 interface ControlPanelProps {
-  visualization: 'thermodynamics' | 'reaction-diffusion' | 'bz-reaction' | 'boids' | 'convection-cells';
+  visualization: VisualizationType;
   thermoParams: SimulationParams;
   onThermoParamsChange: (newParams: Partial<SimulationParams>) => void;
   rdParams: ReactionDiffusionParams;
   onRdParamsChange: (newParams: Partial<ReactionDiffusionParams>) => void;
+  rdBrush: BrushSettings;
+  onRdBrushChange: (newBrush: Partial<BrushSettings>) => void;
+  rdUndoDepth: number;
+  onRdUndo: () => void;
+  rdInitialCondition: InitialCondition;
+  onRdInitialConditionChange: (newCondition: Partial<InitialCondition>) => void;
+  onRdRestart: () => void;
+  rdBoundary: BoundaryCondition;
+  onRdBoundaryChange: (newBoundary: Partial<BoundaryCondition>) => void;
+  rdObstaclePreset: ObstaclePreset;
+  onRdObstaclePresetChange: (preset: ObstaclePreset) => void;
+  bzModel: BZModel;
+  onBzModelChange: (model: BZModel) => void;
+  bzParams: BZParams;
+  onBzParamsChange: (newParams: Partial<BZParams>) => void;
+  onBzClear: () => void;
+  bzBoundary: BoundaryCondition;
+  onBzBoundaryChange: (newBoundary: Partial<BoundaryCondition>) => void;
+  bzPointer: BZPointerSettings;
+  onBzPointerChange: (newPointer: Partial<BZPointerSettings>) => void;
+  bzUndoDepth: number;
+  onBzUndo: () => void;
+  bzObstaclePreset: ObstaclePreset;
+  onBzObstaclePresetChange: (preset: ObstaclePreset) => void;
+  bzInitialCondition: InitialCondition;
+  onBzInitialConditionChange: (newCondition: Partial<InitialCondition>) => void;
+  onBzRestart: () => void;
+  boidsParams: BoidsParams;
+  onBoidsParamsChange: (newParams: Partial<BoidsParams>) => void;
+  onBoidsRestart: () => void;
+  onBoidsBenchmark: () => void;
+  isBenchmarkingBoids: boolean;
+  onVicsekSweep: () => void;
+  onCancelVicsekSweep: () => void;
+  vicsekSweepProgress: number | null; // Null while no sweep is running
   onExplain: () => void;
   isLoadingExplanation: boolean;
+  onExport: (format: ExportFormat) => void;
 }
 
 const Slider: React.FC<{ label: string; min: number; max: number; step: number; value: number; onChange: (e: React.ChangeEvent<HTMLInputElement>) => void; }> = ({ label, min, max, step, value, onChange }) => (
@@ -30,14 +76,590 @@ const Slider: React.FC<{ label: string; min: number; max: number; step: number;
   </div>
 );
 
+const Select = <T extends string>({ label, value, options, onChange }: { label: string; value: T; options: { value: T; label: string }[]; onChange: (value: T) => void; }) => (
+  <div className="flex flex-col space-y-2">
+    <label htmlFor={label} className="text-sm text-brand-tan/80">{label}</label>
+    <select
+      id={label}
+      value={value}
+      onChange={(e) => onChange(e.target.value as T)}
+      className="w-full bg-brand-m-brown text-brand-tan rounded-lg py-2 px-3 cursor-pointer"
+    >
+      {options.map(option => <option key={option.value} value={option.value}>{option.label}</option>)}
+    </select>
+  </div>
+);
+
+const WALL_MODEL_OPTIONS: { value: WallModel; label: string }[] = [
+  { value: 'ad-hoc', label: 'Ad-hoc (speed scaling)' },
+  { value: 'diffuse', label: 'Maxwell diffuse reflection' },
+  { value: 'andersen', label: 'Andersen resampling' },
+];
+
+const BRUSH_MODE_OPTIONS: { value: BrushMode; label: string }[] = [
+  { value: 'add-v', label: 'Add V (seed pattern)' },
+  { value: 'remove-v', label: 'Remove V' },
+  { value: 'reset-u', label: 'Reset to U = 1' },
+  { value: 'draw-obstacle', label: 'Draw obstacle' },
+  { value: 'erase-obstacle', label: 'Erase obstacle' },
+];
+
+const BZ_POINTER_TOOL_OPTIONS: { value: BZPointerTool; label: string }[] = [
+  { value: 'stimulate', label: 'Stimulate (click)' },
+  { value: 'draw-obstacle', label: 'Draw obstacle' },
+  { value: 'erase-obstacle', label: 'Erase obstacle' },
+];
+
+const BOUNDARY_MODE_OPTIONS: { value: BoundaryMode; label: string }[] = [
+  { value: 'periodic', label: 'Periodic (wrap around)' },
+  { value: 'neumann', label: 'Zero flux (Neumann)' },
+  { value: 'dirichlet', label: 'Fixed values (Dirichlet)' },
+];
+
+const BOIDS_BOUNDARY_OPTIONS: { value: BoidsBoundary; label: string }[] = [
+  { value: 'periodic', label: 'Periodic (wrap around)' },
+  { value: 'reflect', label: 'Reflective walls' },
+  { value: 'steer', label: 'Steer away from walls' },
+];
+
+const BOIDS_OBSTACLE_NAMES: Record<BoidsObstacleKind, string> = {
+  sphere: 'Sphere',
+  column: 'Column',
+  ground: 'Ground',
+};
+
+const BOIDS_MODEL_OPTIONS: { value: BoidsModel; label: string }[] = [
+  { value: 'reynolds', label: 'Reynolds boids' },
+  { value: 'vicsek', label: 'Vicsek model' },
+];
+
+const PREDATOR_MODE_OPTIONS: { value: PredatorMode; label: string }[] = [
+  { value: 'mouse', label: 'Mouse (one predator)' },
+  { value: 'autonomous', label: 'Autonomous hunters' },
+];
+
+const PREDATOR_TARGETING_OPTIONS: { value: PredatorTargeting; label: string }[] = [
+  { value: 'nearest', label: 'Nearest boid' },
+  { value: 'isolated', label: 'Most isolated boid' },
+];
+
+const OBSTACLE_PRESET_OPTIONS: { value: ObstaclePreset; label: string }[] = [
+  { value: 'none', label: 'None' },
+  { value: 'slit', label: 'Wall with slit' },
+  { value: 'maze', label: 'Maze' },
+  { value: 'ring', label: 'Ring' },
+  { value: 'pillars', label: 'Grid of pillars' },
+];
+
+const BZ_MODEL_OPTIONS = Object.values(EXCITABLE_MODELS).map(model => ({ value: model.id, label: model.name }));
+
+const INITIAL_CONDITION_OPTIONS: { value: InitialConditionKind; label: string }[] = [
+  { value: 'square', label: 'Central square' },
+  { value: 'noise', label: 'Uniform noise' },
+  { value: 'seeds', label: 'Random seeds' },
+  { value: 'rings', label: 'Concentric rings' },
+  { value: 'stripes', label: 'Stripes' },
+  { value: 'broken-wave', label: 'Broken wave (spiral)' },
+  { value: 'text', label: 'Text stamp' },
+  { value: 'image', label: 'Image (PNG)' },
+];
+
+// Range of `count` for the kinds that use it.
+const COUNT_RANGES: Partial<Record<InitialConditionKind, { label: string; max: number }>> = {
+  seeds: { label: 'Number of Seeds', max: 6000 },
+  rings: { label: 'Number of Rings', max: 20 },
+  stripes: { label: 'Number of Stripes', max: 40 },
+};
+
+const BOIDS_SLIDERS: { key: keyof FlockingRules; label: string; min: number; max: number; step: number }[] = [
+  { key: 'minSpeed', label: 'Min Speed', min: 0, max: 1, step: 0.01 },
+  { key: 'maxSpeed', label: 'Max Speed', min: 0.05, max: 1, step: 0.01 },
+  { key: 'maxForce', label: 'Max Steering Force', min: 0.001, max: 0.05, step: 0.001 },
+  { key: 'cohesionWeight', label: 'Cohesion Weight', min: 0, max: 5, step: 0.1 },
+  { key: 'alignmentWeight', label: 'Alignment Weight', min: 0, max: 5, step: 0.1 },
+  { key: 'separationWeight', label: 'Separation Weight', min: 0, max: 5, step: 0.1 },
+  { key: 'perceptionRadius', label: 'Perception Radius', min: 0.5, max: MAX_PERCEPTION_RADIUS, step: 0.1 },
+  { key: 'separationDistance', label: 'Separation Distance', min: 0.1, max: 4, step: 0.1 },
+  { key: 'predatorWeight', label: 'Predator Weight', min: 0, max: 10, step: 0.1 },
+  { key: 'predatorRadius', label: 'Predator Radius', min: 0, max: 12, step: 0.5 },
+];
+
+// The Vicsek model moves at max speed and aligns within the perception radius.
+const VICSEK_SLIDERS: { key: 'maxSpeed' | 'perceptionRadius' | 'noise'; label: string; min: number; max: number; step: number }[] = [
+  { key: 'maxSpeed', label: 'Speed v₀', min: 0.05, max: 1, step: 0.01 },
+  { key: 'perceptionRadius', label: 'Interaction Radius r', min: 0.5, max: MAX_PERCEPTION_RADIUS, step: 0.1 },
+  { key: 'noise', label: 'Noise η', min: 0, max: 1, step: 0.01 },
+];
+
+const HUNTER_SLIDERS: { key: 'predatorCount' | 'predatorSpeed' | 'confusion' | 'predatorStarvation' | 'predatorBirthMeals' | 'reproductionRate'; label: string; min: number; max: number; step: number }[] = [
+  { key: 'predatorCount', label: 'Hunters at Restart', min: 1, max: MAX_PREDATORS, step: 1 },
+  { key: 'predatorSpeed', label: 'Hunter Speed', min: 0.05, max: 1, step: 0.01 },
+  { key: 'confusion', label: 'Confusion', min: 0, max: 2, step: 0.05 },
+  { key: 'predatorStarvation', label: 'Starvation Time (steps)', min: 50, max: 2000, step: 50 },
+  { key: 'predatorBirthMeals', label: 'Captures per Hunter Birth', min: 1, max: 30, step: 1 },
+  { key: 'reproductionRate', label: 'Boid Reproduction Rate', min: 0, max: 0.02, step: 0.0005 },
+];
+
+const INTERACTION_RULES: { key: keyof SpeciesInteraction; label: string }[] = [
+  { key: 'alignment', label: 'Alignment' },
+  { key: 'cohesion', label: 'Cohesion' },
+  { key: 'separation', label: 'Separation' },
+];
+
+// Species list and, with more than one, the interaction matrix: one grid
+// per rule, each row the species responding and each column the species it
+// responds to.
+const SpeciesControls: React.FC<{ params: BoidsParams; onChange: (newParams: Partial<BoidsParams>) => void; }> = ({ params, onChange }) => {
+  const { species, interactions } = params;
+  const updateSpecies = (index: number, patch: Partial<BoidSpecies>) =>
+    onChange({ species: species.map((s, i) => (i === index ? { ...s, ...patch } : s)) });
+  const updateInteraction = (a: number, b: number, key: keyof SpeciesInteraction, value: number) =>
+    onChange({ interactions: interactions.map((row, i) => (i !== a ? row : row.map((cell, j) => (j === b ? { ...cell, [key]: value } : cell)))) });
+
+  return (
+    <div className="space-y-4">
+      <Slider
+        label="Number of Species"
+        min={1}
+        max={MAX_SPECIES}
+        step={1}
+        value={species.length}
+        onChange={(e) => onChange(resizeSpecies(species, interactions, parseInt(e.target.value, 10)))}
+      />
+      {species.map((s, index) => {
+        const name = `Species ${index + 1}`;
+        return (
+          <div key={index} className="space-y-2 border-l-2 border-brand-m-brown pl-3">
+            <div className="flex items-center justify-between">
+              <label htmlFor={`${name} Color`} className="text-sm font-bold text-brand-tan">{name}</label>
+              <input
+                id={`${name} Color`}
+                type="color"
+                value={s.color}
+                onChange={(e) => updateSpecies(index, { color: e.target.value })}
+                className="w-10 h-6 bg-transparent cursor-pointer"
+              />
+            </div>
+            {species.length > 1 && (
+              <Slider label={`${name} Share`} min={0.1} max={5} step={0.1} value={s.share} onChange={(e) => updateSpecies(index, { share: parseFloat(e.target.value) })} />
+            )}
+            <Slider label={`${name} Speed`} min={0.25} max={2} step={0.05} value={s.speed} onChange={(e) => updateSpecies(index, { speed: parseFloat(e.target.value) })} />
+            <Slider label={`${name} Perception`} min={0.25} max={2} step={0.05} value={s.perception} onChange={(e) => updateSpecies(index, { perception: parseFloat(e.target.value) })} />
+          </div>
+        );
+      })}
+      {species.length > 1 && (
+        <>
+          <div className="grid grid-cols-3 gap-2">
+            {SPECIES_PRESETS.map(preset => {
+              const matrix = preset.interactions(species.length);
+              const active = JSON.stringify(matrix) === JSON.stringify(interactions);
+              return (
+                <button
+                  key={preset.id}
+                  onClick={() => onChange({ interactions: matrix })}
+                  title={preset.description}
+                  aria-pressed={active}
+                  className={`text-sm font-bold py-2 px-2 rounded-lg transition-colors ${active ? 'bg-brand-red text-white' : 'bg-brand-m-brown hover:bg-brand-m-brown/80 text-brand-tan'}`}
+                >
+                  {preset.name}
+                </button>
+              );
+            })}
+          </div>
+          {INTERACTION_RULES.map(({ key, label }) => (
+            <div key={key} className="space-y-1">
+              <p className="text-sm text-brand-tan/80">{label} weights (row responds to column)</p>
+              <div className="grid gap-1" style={{ gridTemplateColumns: `repeat(${species.length + 1}, minmax(0, 1fr))` }}>
+                <span />
+                {species.map((s, b) => (
+                  <span key={b} className="h-2 self-center rounded-full" style={{ backgroundColor: s.color }} />
+                ))}
+                {interactions.map((row, a) => (
+                  <React.Fragment key={a}>
+                    <span className="w-2 justify-self-center rounded-full" style={{ backgroundColor: species[a].color }} />
+                    {row.map((cell, b) => (
+                      <input
+                        key={b}
+                        type="number"
+                        step={0.1}
+                        value={cell[key]}
+                        aria-label={`${label} of species ${a + 1} towards species ${b + 1}`}
+                        onChange={(e) => {
+                          const value = parseFloat(e.target.value);
+                          if (!Number.isNaN(value)) updateInteraction(a, b, key, value);
+                        }}
+                        className="w-full bg-brand-m-brown text-brand-tan rounded py-1 px-1 font-mono text-xs"
+                      />
+                    ))}
+                  </React.Fragment>
+                ))}
+              </div>
+            </div>
+          ))}
+        </>
+      )}
+    </div>
+  );
+};
+
+// Sliders for the coordinates an obstacle of each kind uses.
+const OBSTACLE_AXES: Record<BoidsObstacleKind, { axis: number; label: string }[]> = {
+  sphere: [{ axis: 0, label: 'X' }, { axis: 1, label: 'Y' }, { axis: 2, label: 'Z' }],
+  column: [{ axis: 0, label: 'X' }, { axis: 2, label: 'Z' }],
+  ground: [{ axis: 1, label: 'Height' }],
+};
+
+// Cube boundary, avoidance settings and the obstacle list.
+const BoidsSpaceControls: React.FC<{ params: BoidsParams; onChange: (newParams: Partial<BoidsParams>) => void; }> = ({ params, onChange }) => {
+  const { obstacles } = params;
+  const updateObstacle = (index: number, obstacle: Partial<BoidsObstacle>) =>
+    onChange({ obstacles: obstacles.map((o, i) => (i === index ? { ...o, ...obstacle } : o)) });
+  // Vicsek particles never steer, so walls can only reflect them.
+  const vicsek = params.model === 'vicsek';
+  const avoiding = !vicsek && (params.boundary === 'steer' || obstacles.length > 0);
+
+  return (
+    <div className="space-y-4">
+      <Select
+        label="Boundary"
+        value={params.boundary}
+        options={vicsek ? BOIDS_BOUNDARY_OPTIONS.filter(option => option.value !== 'steer') : BOIDS_BOUNDARY_OPTIONS}
+        onChange={boundary => onChange({ boundary })}
+      />
+      {vicsek && (
+        <p className="text-xs text-brand-tan/80">Particles do not steer around walls or obstacles: they bounce off walls and are pushed back out of obstacles they enter.</p>
+      )}
+      <div className="grid grid-cols-3 gap-2">
+        {(Object.keys(NEW_BOIDS_OBSTACLES) as BoidsObstacleKind[]).map(kind => (
+          <button
+            key={kind}
+            onClick={() => onChange({ obstacles: [...obstacles, NEW_BOIDS_OBSTACLES[kind]] })}
+            disabled={obstacles.length >= MAX_BOIDS_OBSTACLES}
+            className="text-sm bg-brand-m-brown hover:bg-brand-m-brown/80 text-brand-tan font-bold py-2 px-2 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            + {BOIDS_OBSTACLE_NAMES[kind]}
+          </button>
+        ))}
+      </div>
+      {obstacles.map((obstacle, index) => {
+        const name = `${BOIDS_OBSTACLE_NAMES[obstacle.kind]} ${index + 1}`;
+        return (
+          <div key={index} className="space-y-2 border-l-2 border-brand-m-brown pl-3">
+            <div className="flex items-center justify-between">
+              <span className="text-sm font-bold text-brand-tan">{name}</span>
+              <button
+                onClick={() => onChange({ obstacles: obstacles.filter((_, i) => i !== index) })}
+                className="text-xs bg-brand-m-brown hover:bg-brand-m-brown/80 text-brand-tan py-1 px-2 rounded"
+              >
+                Remove
+              </button>
+            </div>
+            {OBSTACLE_AXES[obstacle.kind].map(({ axis, label }) => (
+              <Slider
+                key={axis}
+                label={`${name} ${label}`}
+                min={-BOIDS_BOUNDS / 2}
+                max={BOIDS_BOUNDS / 2}
+                step={0.5}
+                value={obstacle.position[axis]}
+                onChange={(e) => {
+                  const position: BoidsObstacle['position'] = [...obstacle.position];
+                  position[axis] = parseFloat(e.target.value);
+                  updateObstacle(index, { position });
+                }}
+              />
+            ))}
+            {obstacle.kind !== 'ground' && (
+              <Slider
+                label={`${name} Radius`}
+                min={0.5}
+                max={8}
+                step={0.5}
+                value={obstacle.radius}
+                onChange={(e) => updateObstacle(index, { radius: parseFloat(e.target.value) })}
+              />
+            )}
+          </div>
+        );
+      })}
+      {avoiding && (
+        <>
+          <Slider
+            label="Avoidance Weight"
+            min={0}
+            max={10}
+            step={0.1}
+            value={params.avoidanceWeight}
+            onChange={(e) => onChange({ avoidanceWeight: parseFloat(e.target.value) })}
+          />
+          <Slider
+            label="Look-Ahead Distance"
+            min={0.5}
+            max={10}
+            step={0.5}
+            value={params.lookAhead}
+            onChange={(e) => onChange({ lookAhead: parseFloat(e.target.value) })}
+          />
+        </>
+      )}
+    </div>
+  );
+};
+
+// Predator mode and, for autonomous hunters, the population dynamics.
+const PredatorControls: React.FC<{ params: BoidsParams; onChange: (newParams: Partial<BoidsParams>) => void; onRestart: () => void; }> = ({ params, onChange, onRestart }) => (
+  <div className="space-y-4">
+    <Select
+      label="Predators"
+      value={params.predatorMode}
+      options={PREDATOR_MODE_OPTIONS}
+      onChange={predatorMode => onChange({ predatorMode })}
+    />
+    {params.predatorMode === 'autonomous' && (
+      <>
+        <Select
+          label="Hunters Target"
+          value={params.predatorTargeting}
+          options={PREDATOR_TARGETING_OPTIONS}
+          onChange={predatorTargeting => onChange({ predatorTargeting })}
+        />
+        {HUNTER_SLIDERS.map(({ key, label, min, max, step }) => (
+          <Slider
+            key={key}
+            label={label}
+            min={min}
+            max={max}
+            step={step}
+            value={params[key]}
+            onChange={(e) => onChange({ [key]: parseFloat(e.target.value) })}
+          />
+        ))}
+        <button
+          onClick={onRestart}
+          className="w-full bg-brand-m-brown hover:bg-brand-m-brown/80 text-brand-tan font-bold py-2 px-4 rounded-lg transition-colors"
+        >
+          Restart Populations
+        </button>
+      </>
+    )}
+  </div>
+);
+
+// A preset is active while every rule it sets still holds its value.
+const BoidsPresetButtons: React.FC<{ params: BoidsParams; onChange: (newParams: Partial<BoidsParams>) => void; }> = ({ params, onChange }) => (
+  <div className="grid grid-cols-2 gap-2">
+    {BOIDS_PRESETS.map(preset => {
+      const active = (Object.keys(preset.params) as (keyof BoidsPreset['params'])[]).every(key => preset.params[key] === params[key]);
+      return (
+        <button
+          key={preset.id}
+          onClick={() => onChange(preset.params)}
+          title={preset.description}
+          aria-pressed={active}
+          className={`text-sm font-bold py-2 px-2 rounded-lg transition-colors ${active ? 'bg-brand-red text-white' : 'bg-brand-m-brown hover:bg-brand-m-brown/80 text-brand-tan'}`}
+        >
+          {preset.name}
+        </button>
+      );
+    })}
+  </div>
+);
+
+// `range` bounds the Dirichlet sliders for U and V.
+const BoundaryControls: React.FC<{ boundary: BoundaryCondition; range: [number, number]; onChange: (newBoundary: Partial<BoundaryCondition>) => void; }> = ({ boundary, range, onChange }) => (
+  <>
+    <Select
+      label="Boundary"
+      value={boundary.mode}
+      options={BOUNDARY_MODE_OPTIONS}
+      onChange={(mode) => onChange({ mode })}
+    />
+    {boundary.mode === 'dirichlet' && (['U', 'V'] as const).map((name, index) => (
+      <Slider
+        key={name}
+        label={`Boundary ${name}`}
+        min={range[0]}
+        max={range[1]}
+        step={(range[1] - range[0]) / 100}
+        value={boundary.value[index]}
+        onChange={(e) => {
+          const value: BoundaryCondition['value'] = [...boundary.value];
+          value[index] = parseFloat(e.target.value);
+          onChange({ value });
+        }}
+      />
+    ))}
+  </>
+);
+
+// Choosing a preset replaces the whole mask, painted strokes included.
+const ObstacleControls: React.FC<{ preset: ObstaclePreset; onPresetChange: (preset: ObstaclePreset) => void; }> = ({ preset, onPresetChange }) => (
+  <div className="flex items-end space-x-2">
+    <div className="flex-1">
+      <Select
+        label="Obstacles"
+        value={preset}
+        options={OBSTACLE_PRESET_OPTIONS}
+        onChange={onPresetChange}
+      />
+    </div>
+    <button
+      onClick={() => onPresetChange('none')}
+      className="bg-brand-m-brown hover:bg-brand-m-brown/80 text-brand-tan font-bold py-2 px-4 rounded-lg transition-colors"
+    >
+      Clear
+    </button>
+  </div>
+);
+
+const InitialConditionControls: React.FC<{ condition: InitialCondition; onChange: (newCondition: Partial<InitialCondition>) => void; onRestart: () => void; }> = ({ condition, onChange, onRestart }) => {
+  const countRange = COUNT_RANGES[condition.kind];
+
+  const handleImageUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    try {
+      onChange({ image: await loadGrayImage(file) });
+    } catch (error) {
+      console.error("Failed to load image:", error);
+    }
+  };
+
+  return (
+    <div className="space-y-4 border-t border-brand-m-brown pt-4">
+      <Select
+        label="Initial Condition"
+        value={condition.kind}
+        options={INITIAL_CONDITION_OPTIONS}
+        onChange={(kind) => onChange({ kind })}
+      />
+      <Slider
+        label="Amplitude (peak V)"
+        min={0}
+        max={1}
+        step={0.05}
+        value={condition.amplitude}
+        onChange={(e) => onChange({ amplitude: parseFloat(e.target.value) })}
+      />
+      {countRange && (
+        <Slider
+          label={countRange.label}
+          min={1}
+          max={countRange.max}
+          step={1}
+          value={Math.min(condition.count, countRange.max)}
+          onChange={(e) => onChange({ count: parseInt(e.target.value, 10) })}
+        />
+      )}
+      {(condition.kind === 'square' || condition.kind === 'broken-wave' || countRange) && (
+        <Slider
+          label="Half-Width (texels)"
+          min={0}
+          max={40}
+          step={1}
+          value={condition.patchSize}
+          onChange={(e) => onChange({ patchSize: parseInt(e.target.value, 10) })}
+        />
+      )}
+      {condition.kind === 'text' && (
+        <div className="flex flex-col space-y-2">
+          <label htmlFor="initial-text" className="text-sm text-brand-tan/80">Text</label>
+          <input
+            id="initial-text"
+            type="text"
+            value={condition.text}
+            onChange={(e) => onChange({ text: e.target.value })}
+            className="w-full bg-brand-m-brown text-brand-tan rounded-lg py-2 px-3"
+          />
+        </div>
+      )}
+      {condition.kind === 'image' && (
+        <div className="flex flex-col space-y-2">
+          <label htmlFor="initial-image" className="text-sm text-brand-tan/80">PNG image (brightness sets V)</label>
+          <input
+            id="initial-image"
+            type="file"
+            accept="image/png"
+            onChange={handleImageUpload}
+            className="text-xs text-brand-tan file:bg-brand-m-brown file:text-brand-tan file:border-0 file:rounded file:py-1 file:px-2"
+          />
+          {!condition.image && <p className="text-xs text-brand-tan/60">No image loaded: V starts at zero.</p>}
+        </div>
+      )}
+      <div className="flex items-end space-x-2">
+        <div className="flex flex-col space-y-2 w-24">
+          <label htmlFor="initial-seed" className="text-sm text-brand-tan/80">Seed</label>
+          <input
+            id="initial-seed"
+            type="number"
+            min={0}
+            value={condition.seed}
+            onChange={(e) => onChange({ seed: Math.max(0, parseInt(e.target.value, 10) || 0) })}
+            className="w-full bg-brand-m-brown text-brand-tan rounded-lg py-2 px-3 font-mono"
+          />
+        </div>
+        <button
+          onClick={() => onChange({ seed: Math.floor(Math.random() * 1e6) })}
+          className="flex-1 bg-brand-m-brown hover:bg-brand-m-brown/80 text-brand-tan font-bold py-2 px-4 rounded-lg transition-colors"
+        >
+          New Seed
+        </button>
+        <button
+          onClick={onRestart}
+          className="flex-1 bg-brand-red hover:bg-brand-red/90 text-white font-bold py-2 px-4 rounded-lg transition-colors"
+        >
+          Restart
+        </button>
+      </div>
+    </div>
+  );
+};
+
 export const ControlPanel: React.FC<ControlPanelProps> = ({ 
   visualization,
   thermoParams,
   onThermoParamsChange,
   rdParams,
   onRdParamsChange,
+  rdBrush,
+  onRdBrushChange,
+  rdUndoDepth,
+  onRdUndo,
+  rdInitialCondition,
+  onRdInitialConditionChange,
+  onRdRestart,
+  rdBoundary,
+  onRdBoundaryChange,
+  rdObstaclePreset,
+  onRdObstaclePresetChange,
+  bzModel,
+  onBzModelChange,
+  bzParams,
+  onBzParamsChange,
+  onBzClear,
+  bzBoundary,
+  onBzBoundaryChange,
+  bzPointer,
+  onBzPointerChange,
+  bzUndoDepth,
+  onBzUndo,
+  bzObstaclePreset,
+  onBzObstaclePresetChange,
+  bzInitialCondition,
+  onBzInitialConditionChange,
+  onBzRestart,
+  boidsParams,
+  onBoidsParamsChange,
+  onBoidsRestart,
+  onBoidsBenchmark,
+  isBenchmarkingBoids,
+  onVicsekSweep,
+  onCancelVicsekSweep,
+  vicsekSweepProgress,
   onExplain, 
-  isLoadingExplanation 
+  isLoadingExplanation,
+  onExport
 }) => {
   return (
     <div className="bg-brand-d-brown p-4 rounded-lg space-y-4">
@@ -53,13 +675,48 @@ export const ControlPanel: React.FC<ControlPanelProps> = ({
             value={thermoParams.particleCount}
             onChange={(e) => onThermoParamsChange({ particleCount: parseInt(e.target.value, 10) })}
           />
+          <Select
+            label="Wall Model"
+            value={thermoParams.wallModel}
+            options={WALL_MODEL_OPTIONS}
+            onChange={(wallModel) => onThermoParamsChange({ wallModel })}
+          />
+          {thermoParams.wallModel === 'ad-hoc' ? (
+            <Slider
+              label="Heat Input"
+              min={0}
+              max={0.2}
+              step={0.005}
+              value={thermoParams.heat}
+              onChange={(e) => onThermoParamsChange({ heat: parseFloat(e.target.value) })}
+            />
+          ) : (
+            <>
+              <Slider
+                label="Hot Wall Temperature"
+                min={0.0005}
+                max={0.008}
+                step={0.0001}
+                value={thermoParams.hotTemperature}
+                onChange={(e) => onThermoParamsChange({ hotTemperature: parseFloat(e.target.value) })}
+              />
+              <Slider
+                label="Cold Wall Temperature"
+                min={0.0005}
+                max={0.008}
+                step={0.0001}
+                value={thermoParams.coldTemperature}
+                onChange={(e) => onThermoParamsChange({ coldTemperature: parseFloat(e.target.value) })}
+              />
+            </>
+          )}
           <Slider
-            label="Heat Input"
-            min={0}
-            max={0.2}
-            step={0.005}
-            value={thermoParams.heat}
-            onChange={(e) => onThermoParamsChange({ heat: parseFloat(e.target.value) })}
+            label="Averaging Window (steps)"
+            min={60}
+            max={3000}
+            step={60}
+            value={thermoParams.averagingWindow}
+            onChange={(e) => onThermoParamsChange({ averagingWindow: parseInt(e.target.value, 10) })}
           />
           <div className="flex space-x-2">
             <button
@@ -69,7 +726,7 @@ export const ControlPanel: React.FC<ControlPanelProps> = ({
               {thermoParams.isPaused ? 'Resume' : 'Pause'}
             </button>
             <button
-              onClick={() => onThermoParamsChange({ heat: 0.05 })}
+              onClick={() => onThermoParamsChange({ heat: 0.05, hotTemperature: 0.004, coldTemperature: 0.001 })}
               className="flex-1 bg-brand-m-brown hover:bg-brand-m-brown/90 text-white font-bold py-2 px-4 rounded-lg transition-colors"
             >
               Reset
@@ -83,6 +740,20 @@ export const ControlPanel: React.FC<ControlPanelProps> = ({
             {isLoadingExplanation && <div className="w-4 h-4 border-2 border-white border-t-transparent rounded-full animate-spin"></div>}
             <span>Explain This Phenomenon</span>
           </button>
+          <div className="flex space-x-2">
+            <button
+              onClick={() => onExport('csv')}
+              className="flex-1 bg-brand-m-brown hover:bg-brand-m-brown/90 text-white font-bold py-2 px-4 rounded-lg transition-colors"
+            >
+              Export CSV
+            </button>
+            <button
+              onClick={() => onExport('json')}
+              className="flex-1 bg-brand-m-brown hover:bg-brand-m-brown/90 text-white font-bold py-2 px-4 rounded-lg transition-colors"
+            >
+              Export JSON
+            </button>
+          </div>
         </>
       )}
 
@@ -90,7 +761,7 @@ export const ControlPanel: React.FC<ControlPanelProps> = ({
         <>
           <Slider
             label="Feed Rate (f)"
-            min={0.01}
+            min={0}
             max={0.1}
             step={0.0001}
             value={rdParams.feed}
@@ -104,19 +775,229 @@ export const ControlPanel: React.FC<ControlPanelProps> = ({
             value={rdParams.kill}
             onChange={(e) => onRdParamsChange({ kill: parseFloat(e.target.value) })}
           />
+          <PhaseMapPicker params={rdParams} onChange={onRdParamsChange} />
+          <div className="flex space-x-2">
+            <button
+              onClick={() => onRdBrushChange({ enabled: !rdBrush.enabled })}
+              className="flex-1 bg-brand-red hover:bg-brand-red/90 text-white font-bold py-2 px-4 rounded-lg transition-colors"
+              aria-pressed={rdBrush.enabled}
+            >
+              {rdBrush.enabled ? 'Stop Painting' : 'Paint'}
+            </button>
+            <button
+              onClick={onRdUndo}
+              disabled={rdUndoDepth === 0}
+              className="flex-1 bg-brand-m-brown hover:bg-brand-m-brown/80 text-brand-tan font-bold py-2 px-4 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Undo ({rdUndoDepth})
+            </button>
+          </div>
+          {rdBrush.enabled && (
+            <>
+              <p className="text-xs text-brand-tan/80">Click and drag on the knot to paint. Camera orbit is off while painting.</p>
+              <Select
+                label="Brush Mode"
+                value={rdBrush.mode}
+                options={BRUSH_MODE_OPTIONS}
+                onChange={(mode) => onRdBrushChange({ mode })}
+              />
+              <Slider
+                label="Brush Radius"
+                min={0.02}
+                max={0.5}
+                step={0.01}
+                value={rdBrush.radius}
+                onChange={(e) => onRdBrushChange({ radius: parseFloat(e.target.value) })}
+              />
+              <Slider
+                label="Brush Softness"
+                min={0}
+                max={1}
+                step={0.05}
+                value={rdBrush.softness}
+                onChange={(e) => onRdBrushChange({ softness: parseFloat(e.target.value) })}
+              />
+            </>
+          )}
+          <BoundaryControls boundary={rdBoundary} range={[0, 1]} onChange={onRdBoundaryChange} />
+          <ObstacleControls preset={rdObstaclePreset} onPresetChange={onRdObstaclePresetChange} />
+          <InitialConditionControls condition={rdInitialCondition} onChange={onRdInitialConditionChange} onRestart={onRdRestart} />
         </>
       )}
 
       {visualization === 'bz-reaction' && (
+        <>
           <div className="text-center bg-brand-m-brown p-3 rounded-md">
             <p className="text-sm text-brand-tan">Click and drag on the canvas to trigger new chemical waves and spirals.</p>
           </div>
+          <Select
+            label="Model"
+            value={bzModel}
+            options={BZ_MODEL_OPTIONS}
+            onChange={onBzModelChange}
+          />
+          <p className="text-xs text-brand-tan/80">{EXCITABLE_MODELS[bzModel].description}</p>
+          {EXCITABLE_MODELS[bzModel].parameters.map((parameter, index) => (
+            <Slider
+              key={parameter.name}
+              label={parameter.label}
+              min={parameter.min}
+              max={parameter.max}
+              step={parameter.step}
+              value={bzParams.kinetics[index]}
+              onChange={(e) => {
+                const kinetics: BZParams['kinetics'] = [...bzParams.kinetics];
+                kinetics[index] = parseFloat(e.target.value);
+                onBzParamsChange({ kinetics });
+              }}
+            />
+          ))}
+          <Slider
+            label="Diffusion (D)"
+            min={0.1}
+            max={2}
+            step={0.05}
+            value={bzParams.diffusion}
+            onChange={(e) => onBzParamsChange({ diffusion: parseFloat(e.target.value) })}
+          />
+          <Slider
+            label="Timestep (dt)"
+            min={EXCITABLE_MODELS[bzModel].dt / 10}
+            max={maxStableTimestep(EXCITABLE_MODELS[bzModel], bzParams.diffusion)}
+            step={EXCITABLE_MODELS[bzModel].dt / 100}
+            value={bzParams.dt}
+            onChange={(e) => onBzParamsChange({ dt: parseFloat(e.target.value) })}
+          />
+          <Slider
+            label="Steps per Frame"
+            min={1}
+            max={40}
+            step={1}
+            value={bzParams.stepsPerFrame}
+            onChange={(e) => onBzParamsChange({ stepsPerFrame: parseInt(e.target.value, 10) })}
+          />
+          <Slider
+            label="Stimulus Radius"
+            min={0.005}
+            max={0.1}
+            step={0.005}
+            value={bzParams.stimulusRadius}
+            onChange={(e) => onBzParamsChange({ stimulusRadius: parseFloat(e.target.value) })}
+          />
+          <Slider
+            label="Displacement Height"
+            min={0}
+            max={4}
+            step={0.1}
+            value={bzParams.displacementScale}
+            onChange={(e) => onBzParamsChange({ displacementScale: parseFloat(e.target.value) })}
+          />
+          <div className="flex space-x-2">
+            <button
+              onClick={onBzClear}
+              className="flex-1 bg-brand-red hover:bg-brand-red/90 text-white font-bold py-2 px-4 rounded-lg transition-colors"
+            >
+              Clear Field
+            </button>
+            <button
+              onClick={() => onBzParamsChange(defaultBZParams(EXCITABLE_MODELS[bzModel]))}
+              className="flex-1 bg-brand-m-brown hover:bg-brand-m-brown/80 text-brand-tan font-bold py-2 px-4 rounded-lg transition-colors"
+            >
+              Default Parameters
+            </button>
+          </div>
+          <Select
+            label="Pointer Tool"
+            value={bzPointer.tool}
+            options={BZ_POINTER_TOOL_OPTIONS}
+            onChange={(tool) => onBzPointerChange({ tool })}
+          />
+          {bzPointer.tool !== 'stimulate' && (
+            <>
+              <p className="text-xs text-brand-tan/80">Drag on the surface to paint. Camera orbit is off while painting obstacles.</p>
+              <Slider
+                label="Obstacle Brush Radius"
+                min={0.005}
+                max={0.1}
+                step={0.005}
+                value={bzPointer.obstacleRadius}
+                onChange={(e) => onBzPointerChange({ obstacleRadius: parseFloat(e.target.value) })}
+              />
+              <button
+                onClick={onBzUndo}
+                disabled={bzUndoDepth === 0}
+                className="w-full bg-brand-m-brown hover:bg-brand-m-brown/80 text-brand-tan font-bold py-2 px-4 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                Undo ({bzUndoDepth})
+              </button>
+            </>
+          )}
+          <BoundaryControls boundary={bzBoundary} range={EXCITABLE_MODELS[bzModel].boundsU} onChange={onBzBoundaryChange} />
+          <ObstacleControls preset={bzObstaclePreset} onPresetChange={onBzObstaclePresetChange} />
+          <InitialConditionControls condition={bzInitialCondition} onChange={onBzInitialConditionChange} onRestart={onBzRestart} />
+        </>
       )}
 
       {visualization === 'boids' && (
-        <div className="text-center bg-brand-m-brown p-3 rounded-md">
-          <p className="text-sm text-brand-tan">Move your mouse to guide the predator sphere and watch the flock react.</p>
-        </div>
+        <>
+          <div className="text-center bg-brand-m-brown p-3 rounded-md">
+            <p className="text-sm text-brand-tan">
+              {boidsParams.model === 'vicsek'
+                ? 'Every boid takes its neighbours\' mean heading, turned at random by the noise.'
+                : boidsParams.predatorMode === 'mouse'
+                  ? 'Move your mouse to guide the predator sphere and watch the flock react.'
+                  : 'Red hunters chase and catch boids; the flock regrows between attacks.'}
+            </p>
+          </div>
+          <Select
+            label="Model"
+            value={boidsParams.model}
+            options={BOIDS_MODEL_OPTIONS}
+            onChange={(model) => onBoidsParamsChange(
+              model === 'vicsek' && boidsParams.boundary === 'steer' ? { model, boundary: 'reflect' } : { model },
+            )}
+          />
+          {boidsParams.model === 'reynolds' && <BoidsPresetButtons params={boidsParams} onChange={onBoidsParamsChange} />}
+          <Slider
+            label="Number of Boids"
+            min={100}
+            max={20000}
+            step={100}
+            value={boidsParams.count}
+            onChange={(e) => onBoidsParamsChange({ count: parseInt(e.target.value, 10) })}
+          />
+          {(boidsParams.model === 'vicsek' ? VICSEK_SLIDERS : BOIDS_SLIDERS).map(({ key, label, min, max, step }) => (
+            <Slider
+              key={key}
+              label={label}
+              min={min}
+              max={max}
+              step={step}
+              value={boidsParams[key]}
+              onChange={(e) => onBoidsParamsChange({ [key]: parseFloat(e.target.value) })}
+            />
+          ))}
+          {boidsParams.model === 'reynolds' && <SpeciesControls params={boidsParams} onChange={onBoidsParamsChange} />}
+          <BoidsSpaceControls params={boidsParams} onChange={onBoidsParamsChange} />
+          {boidsParams.model === 'reynolds' ? (
+            <PredatorControls params={boidsParams} onChange={onBoidsParamsChange} onRestart={onBoidsRestart} />
+          ) : (
+            <button
+              onClick={vicsekSweepProgress === null ? onVicsekSweep : onCancelVicsekSweep}
+              className="w-full bg-brand-m-brown hover:bg-brand-m-brown/80 text-brand-tan font-bold py-2 px-4 rounded-lg transition-colors"
+            >
+              {vicsekSweepProgress === null ? 'Run Noise Sweep' : `Cancel Sweep (${(vicsekSweepProgress * 100).toFixed(0)}%)`}
+            </button>
+          )}
+          <button
+            onClick={onBoidsBenchmark}
+            disabled={isBenchmarkingBoids}
+            className="w-full bg-brand-red hover:bg-brand-red/90 text-white font-bold py-2 px-4 rounded-lg transition-colors disabled:bg-brand-red/50 disabled:cursor-not-allowed flex items-center justify-center space-x-2"
+          >
+            {isBenchmarkingBoids && <div className="w-4 h-4 border-2 border-white border-t-transparent rounded-full animate-spin"></div>}
+            <span>Benchmark Step Time</span>
+          </button>
+        </>
       )}
 
       {visualization === 'convection-cells' && (
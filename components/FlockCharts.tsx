@@ -0,0 +1,178 @@
+import React, { useMemo } from 'react';
+import { LineChart, Line, BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend } from 'recharts';
+import type { FlockStatistics } from '../types';
+import { MIN_FLOCK_SIZE } from '../simulation/flockAnalysis';
+import { ChartPanel, tooltipProps } from './HistoryCharts';
+
+interface FlockChartsProps {
+  history: FlockStatistics[];
+  latest: FlockStatistics | null;
+  showPopulations: boolean; // Whether hunters are catching boids, so the populations change
+  onClear: () => void;
+}
+
+const MAX_FLOCK_BARS = 12;
+
+const formatOrder = (value: number | null | undefined) => (value === null || value === undefined ? '–' : value.toFixed(2));
+
+export const FlockCharts: React.FC<FlockChartsProps> = ({ history, latest, showPopulations, onClear }) => {
+  const chartData = useMemo(() => history.map(sample => ({
+    time: sample.time,
+    polarization: sample.polarization,
+    milling: sample.milling,
+    flocks: sample.flockSizes.length,
+    nearest: sample.meanNearestNeighbour,
+    prey: sample.preyCount,
+    mixing: sample.mixing,
+    predators: sample.predatorCount,
+  })), [history]);
+
+  const distributionData = useMemo(() => latest
+    ? latest.nearestNeighbour.binCenters.map((distance, i) => ({
+        distance: distance.toFixed(2),
+        fraction: latest.nearestNeighbour.fractions[i],
+      }))
+    : [], [latest]);
+
+  const flockData = useMemo(() => (latest?.flockSizes ?? [])
+    .slice(0, MAX_FLOCK_BARS)
+    .map((size, i) => ({ rank: i + 1, size })), [latest]);
+
+  const axisProps = { tick: { fill: '#a78a70' }, fontSize: 10 };
+  const margin = { top: 5, right: 20, left: 0, bottom: 5 };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <h2 className="text-lg font-semibold text-brand-red">Collective Behavior</h2>
+        <button
+          onClick={onClear}
+          className="text-xs bg-brand-m-brown hover:bg-brand-m-brown/80 text-brand-tan py-1 px-2 rounded"
+        >
+          Clear
+        </button>
+      </div>
+      <div className="grid grid-cols-2 gap-4 text-center">
+        <div className="bg-brand-m-brown p-3 rounded-md">
+          <p className="text-xs text-brand-tan/80">Polarization</p>
+          <p className="text-xl font-mono text-brand-red">{formatOrder(latest?.polarization)}</p>
+        </div>
+        <div className="bg-brand-m-brown p-3 rounded-md">
+          <p className="text-xs text-brand-tan/80">Milling</p>
+          <p className="text-xl font-mono text-brand-red">{formatOrder(latest?.milling)}</p>
+        </div>
+        <div className="bg-brand-m-brown p-3 rounded-md">
+          <p className="text-xs text-brand-tan/80">Flocks</p>
+          <p className="text-sm font-mono text-brand-red">{latest?.flockSizes.length ?? '–'}</p>
+        </div>
+        <div className="bg-brand-m-brown p-3 rounded-md">
+          <p className="text-xs text-brand-tan/80">Mean Nearest Neighbor</p>
+          <p className="text-sm font-mono text-brand-red">{formatOrder(latest?.meanNearestNeighbour)}</p>
+        </div>
+        {latest && latest.mixing !== null && (
+          <div className="bg-brand-m-brown p-3 rounded-md col-span-2">
+            <p className="text-xs text-brand-tan/80">Species Mixing</p>
+            <p className="text-sm font-mono text-brand-red">{formatOrder(latest.mixing)}</p>
+          </div>
+        )}
+        {showPopulations && (
+          <>
+            <div className="bg-brand-m-brown p-3 rounded-md">
+              <p className="text-xs text-brand-tan/80">Prey</p>
+              <p className="text-sm font-mono text-brand-red">{latest?.preyCount ?? '–'}</p>
+            </div>
+            <div className="bg-brand-m-brown p-3 rounded-md">
+              <p className="text-xs text-brand-tan/80">Predators</p>
+              <p className="text-sm font-mono text-brand-red">{latest?.predatorCount ?? '–'}</p>
+            </div>
+          </>
+        )}
+      </div>
+
+      {showPopulations && (
+        <ChartPanel title="Population">
+          <LineChart data={chartData} syncId="flock-history" margin={{ ...margin, right: 0 }}>
+            <CartesianGrid strokeDasharray="3 3" stroke="#59453c" />
+            <XAxis dataKey="time" {...axisProps} />
+            <YAxis yAxisId="prey" {...axisProps} allowDecimals={false} />
+            <YAxis yAxisId="predators" orientation="right" {...axisProps} allowDecimals={false} />
+            <Tooltip {...tooltipProps} />
+            <Legend wrapperStyle={{ fontSize: '10px' }} />
+            <Line yAxisId="prey" type="monotone" dataKey="prey" name="Prey" stroke="#a78a70" strokeWidth={2} dot={false} isAnimationActive={false} />
+            <Line yAxisId="predators" type="monotone" dataKey="predators" name="Predators" stroke="#7c1f23" strokeWidth={2} dot={false} isAnimationActive={false} />
+          </LineChart>
+        </ChartPanel>
+      )}
+
+      <ChartPanel title="Order Parameters">
+        <LineChart data={chartData} syncId="flock-history" margin={margin}>
+          <CartesianGrid strokeDasharray="3 3" stroke="#59453c" />
+          <XAxis dataKey="time" {...axisProps} />
+          <YAxis {...axisProps} domain={[0, 1]} />
+          <Tooltip {...tooltipProps} formatter={(v: number) => v.toFixed(3)} />
+          <Legend wrapperStyle={{ fontSize: '10px' }} />
+          <Line type="monotone" dataKey="polarization" name="Polarization" stroke="#7c1f23" strokeWidth={2} dot={false} isAnimationActive={false} />
+          <Line type="monotone" dataKey="milling" name="Milling" stroke="#a78a70" strokeWidth={2} dot={false} isAnimationActive={false} />
+        </LineChart>
+      </ChartPanel>
+
+      {latest && latest.mixing !== null && (
+        <ChartPanel title="Species Mixing">
+          <LineChart data={chartData} syncId="flock-history" margin={margin}>
+            <CartesianGrid strokeDasharray="3 3" stroke="#59453c" />
+            <XAxis dataKey="time" {...axisProps} />
+            <YAxis {...axisProps} domain={[0, 'auto']} tickFormatter={(v: number) => v.toPrecision(2)} />
+            <Tooltip {...tooltipProps} formatter={(v: number) => v.toFixed(3)} />
+            <Line type="monotone" dataKey="mixing" name="Mixing" stroke="#7c1f23" strokeWidth={2} dot={false} isAnimationActive={false} />
+          </LineChart>
+        </ChartPanel>
+      )}
+
+      <ChartPanel title="Flock Count">
+        <LineChart data={chartData} syncId="flock-history" margin={margin}>
+          <CartesianGrid strokeDasharray="3 3" stroke="#59453c" />
+          <XAxis dataKey="time" {...axisProps} />
+          <YAxis {...axisProps} allowDecimals={false} />
+          <Tooltip {...tooltipProps} />
+          <Line type="stepAfter" dataKey="flocks" name="Flocks" stroke="#7c1f23" strokeWidth={2} dot={false} isAnimationActive={false} />
+        </LineChart>
+      </ChartPanel>
+
+      <ChartPanel title="Mean Nearest-Neighbor Distance">
+        <LineChart data={chartData} syncId="flock-history" margin={margin}>
+          <CartesianGrid strokeDasharray="3 3" stroke="#59453c" />
+          <XAxis dataKey="time" {...axisProps} />
+          <YAxis {...axisProps} domain={['auto', 'auto']} tickFormatter={(v: number) => v.toPrecision(2)} />
+          <Tooltip {...tooltipProps} formatter={(v: number) => v.toFixed(3)} />
+          <Line type="monotone" dataKey="nearest" name="Distance" stroke="#a78a70" strokeWidth={2} dot={false} isAnimationActive={false} />
+        </LineChart>
+      </ChartPanel>
+
+      <ChartPanel title="Nearest-Neighbor Distribution">
+        <BarChart data={distributionData} margin={margin}>
+          <CartesianGrid strokeDasharray="3 3" stroke="#59453c" />
+          <XAxis dataKey="distance" {...axisProps} />
+          <YAxis {...axisProps} tickFormatter={(v: number) => v.toPrecision(2)} />
+          <Tooltip contentStyle={tooltipProps.contentStyle} labelStyle={tooltipProps.labelStyle} formatter={(v: number) => v.toFixed(3)} />
+          <Bar dataKey="fraction" name="Fraction of boids" fill="#7c1f23" isAnimationActive={false} />
+        </BarChart>
+      </ChartPanel>
+
+      <ChartPanel title="Flock Sizes">
+        <BarChart data={flockData} margin={margin}>
+          <CartesianGrid strokeDasharray="3 3" stroke="#59453c" />
+          <XAxis dataKey="rank" {...axisProps} />
+          <YAxis {...axisProps} allowDecimals={false} />
+          <Tooltip contentStyle={tooltipProps.contentStyle} labelStyle={tooltipProps.labelStyle} labelFormatter={(rank: number) => `Flock ${rank}`} />
+          <Bar dataKey="size" name="Boids" fill="#a78a70" isAnimationActive={false} />
+        </BarChart>
+      </ChartPanel>
+
+      <p className="text-xs text-brand-tan/60">
+        Flocks are groups linked by boids within perception range of each other, with at least {MIN_FLOCK_SIZE} members.
+        {latest && latest.mixing !== null && ' Species mixing is 1 when flockmates are of each species in proportion to the flock and 0 when species never flock together.'}
+        {latest && latest.isolatedFraction > 0 && ` ${(latest.isolatedFraction * 100).toFixed(1)}% of boids have no flockmate in range.`}
+      </p>
+    </div>
+  );
+};
@@ -0,0 +1,147 @@
+import React, { useMemo, useState } from 'react';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer, Brush } from 'recharts';
+import type { SimulationData, HistorySettings, SystemState } from '../types';
+
+interface HistoryChartsProps {
+  history: SimulationData[];
+  settings: HistorySettings;
+  onSettingsChange: (settings: Partial<HistorySettings>) => void;
+  onClear: () => void;
+}
+
+// Vertical order of the state-transition panel, from rest to most disordered.
+const SYSTEM_STATES: SystemState[] = ['Initializing', 'Near Equilibrium', 'Steady State', 'Relaxing', 'Chaotic'];
+
+const LENGTH_OPTIONS = [150, 300, 600, 1200, 2400];
+const INTERVAL_OPTIONS = [1, 5, 10, 30, 60];
+
+export const tooltipProps = {
+  contentStyle: { backgroundColor: '#362222', border: 'none' },
+  labelStyle: { color: '#a78a70' },
+  labelFormatter: (time: number) => `Step ${time}`,
+};
+
+export const ChartPanel: React.FC<{ title: string; children: React.ReactElement; height?: string }> = ({ title, children, height = 'h-32' }) => (
+  <div>
+    <h4 className="text-xs font-semibold text-brand-tan/80 mb-1">{title}</h4>
+    <div className={`w-full ${height}`}>
+      <ResponsiveContainer width="100%" height="100%">
+        {children}
+      </ResponsiveContainer>
+    </div>
+  </div>
+);
+
+export const HistoryCharts: React.FC<HistoryChartsProps> = ({ history, settings, onSettingsChange, onClear }) => {
+  // Pause-to-inspect: freeze the plotted samples while recording continues.
+  const [frozen, setFrozen] = useState<SimulationData[] | null>(null);
+  const samples = frozen ?? history;
+
+  const chartData = useMemo(() => samples.map(sample => ({
+    time: sample.time,
+    entropy: sample.entropyProduction,
+    heatIn: sample.heatFlux.hot,
+    heatOut: sample.heatFlux.cold,
+    meanTemperature: sample.temperatureGradient.length
+      ? sample.temperatureGradient.reduce((a, b) => a + b, 0) / sample.temperatureGradient.length
+      : 0,
+    state: SYSTEM_STATES.indexOf(sample.systemState),
+  })), [samples]);
+
+  const axisProps = { tick: { fill: '#a78a70' }, fontSize: 10 };
+  const margin = { top: 5, right: 20, left: 0, bottom: 5 };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <h3 className="text-md font-semibold text-brand-tan">History</h3>
+        <div className="flex space-x-2">
+          <button
+            onClick={() => setFrozen(frozen ? null : history)}
+            className="text-xs bg-brand-m-brown hover:bg-brand-m-brown/80 text-brand-tan py-1 px-2 rounded"
+            aria-pressed={frozen !== null}
+          >
+            {frozen ? 'Live' : 'Freeze'}
+          </button>
+          <button
+            onClick={() => { setFrozen(null); onClear(); }}
+            className="text-xs bg-brand-m-brown hover:bg-brand-m-brown/80 text-brand-tan py-1 px-2 rounded"
+          >
+            Clear
+          </button>
+        </div>
+      </div>
+      <div className="grid grid-cols-2 gap-2 text-xs">
+        <label className="flex flex-col text-brand-tan/80">
+          Samples kept
+          <select
+            value={settings.length}
+            onChange={(e) => onSettingsChange({ length: parseInt(e.target.value, 10) })}
+            className="bg-brand-m-brown text-brand-tan rounded py-1 px-2 mt-1"
+          >
+            {LENGTH_OPTIONS.map(option => <option key={option} value={option}>{option}</option>)}
+          </select>
+        </label>
+        <label className="flex flex-col text-brand-tan/80">
+          Steps per sample
+          <select
+            value={settings.sampleInterval}
+            onChange={(e) => onSettingsChange({ sampleInterval: parseInt(e.target.value, 10) })}
+            className="bg-brand-m-brown text-brand-tan rounded py-1 px-2 mt-1"
+          >
+            {INTERVAL_OPTIONS.map(option => <option key={option} value={option}>{option}</option>)}
+          </select>
+        </label>
+      </div>
+
+      <ChartPanel title="Entropy Production">
+        <LineChart data={chartData} syncId="thermo-history" margin={margin}>
+          <CartesianGrid strokeDasharray="3 3" stroke="#59453c" />
+          <XAxis dataKey="time" {...axisProps} />
+          <YAxis {...axisProps} tickFormatter={(v: number) => v.toPrecision(2)} />
+          <Tooltip {...tooltipProps} />
+          <Line type="monotone" dataKey="entropy" name="σ total" stroke="#7c1f23" strokeWidth={2} dot={false} isAnimationActive={false} />
+        </LineChart>
+      </ChartPanel>
+
+      <ChartPanel title="Wall Heat Flux">
+        <LineChart data={chartData} syncId="thermo-history" margin={margin}>
+          <CartesianGrid strokeDasharray="3 3" stroke="#59453c" />
+          <XAxis dataKey="time" {...axisProps} />
+          <YAxis {...axisProps} tickFormatter={(v: number) => v.toPrecision(2)} />
+          <Tooltip {...tooltipProps} />
+          <Legend wrapperStyle={{ fontSize: '10px' }} />
+          <Line type="monotone" dataKey="heatIn" name="In (hot)" stroke="#e04848" dot={false} isAnimationActive={false} />
+          <Line type="monotone" dataKey="heatOut" name="Out (cold)" stroke="#4878e0" dot={false} isAnimationActive={false} />
+        </LineChart>
+      </ChartPanel>
+
+      <ChartPanel title="Mean Temperature">
+        <LineChart data={chartData} syncId="thermo-history" margin={margin}>
+          <CartesianGrid strokeDasharray="3 3" stroke="#59453c" />
+          <XAxis dataKey="time" {...axisProps} />
+          <YAxis {...axisProps} domain={['auto', 'auto']} tickFormatter={(v: number) => v.toPrecision(2)} />
+          <Tooltip {...tooltipProps} />
+          <Line type="monotone" dataKey="meanTemperature" name="T mean" stroke="#a78a70" strokeWidth={2} dot={false} isAnimationActive={false} />
+        </LineChart>
+      </ChartPanel>
+
+      <ChartPanel title="System State" height="h-40">
+        <LineChart data={chartData} syncId="thermo-history" margin={margin}>
+          <CartesianGrid strokeDasharray="3 3" stroke="#59453c" />
+          <XAxis dataKey="time" {...axisProps} />
+          <YAxis
+            {...axisProps}
+            width={70}
+            domain={[0, SYSTEM_STATES.length - 1]}
+            ticks={SYSTEM_STATES.map((_, i) => i)}
+            tickFormatter={(i: number) => SYSTEM_STATES[i] ?? ''}
+          />
+          <Tooltip {...tooltipProps} formatter={(i: number) => SYSTEM_STATES[i]} />
+          <Line type="stepAfter" dataKey="state" name="State" stroke="#7c1f23" strokeWidth={2} dot={false} isAnimationActive={false} />
+          <Brush dataKey="time" height={16} stroke="#7c1f23" fill="#362222" travellerWidth={8} />
+        </LineChart>
+      </ChartPanel>
+    </div>
+  );
+};
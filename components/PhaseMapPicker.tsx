@@ -0,0 +1,149 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import type { ReactionDiffusionParams } from '../types';
+import { GRAY_SCOTT_PRESETS, PHASE_MAP_BOUNDS, saddleNodeKill } from '../simulation/grayScottPresets';
+import type { GrayScottPreset } from '../simulation/grayScottPresets';
+import { GrayScottPreview } from '../simulation/grayScott';
+
+const MAP_WIDTH = 240;
+const MAP_HEIGHT = 200;
+const THUMBNAIL_STEPS = 6000;
+// Steps per timeout slice, so thumbnail generation never blocks a frame for long.
+const STEPS_PER_SLICE = 200;
+
+// Thumbnails survive remounts of the panel; they only depend on the preset.
+const thumbnailCache = new Map<string, string>();
+
+const smoothstep = (edge0: number, edge1: number, x: number) => {
+  const t = Math.min(1, Math.max(0, (x - edge0) / (edge1 - edge0)));
+  return t * t * (3 - 2 * t);
+};
+
+// Same yellow-on-blue ramp as the torus knot's display shader.
+function fieldToDataUrl(field: Float32Array, size: number): string {
+  const canvas = document.createElement('canvas');
+  canvas.width = size;
+  canvas.height = size;
+  const context = canvas.getContext('2d')!;
+  const image = context.createImageData(size, size);
+  field.forEach((v, i) => {
+    const t = smoothstep(0, 0.5, v);
+    image.data[i * 4] = 255 * (0.1 + 0.8 * t);
+    image.data[i * 4 + 1] = 255 * (0.1 + 0.8 * t);
+    image.data[i * 4 + 2] = 255 * (0.9 - 0.8 * t);
+    image.data[i * 4 + 3] = 255;
+  });
+  context.putImageData(image, 0, 0);
+  return canvas.toDataURL();
+}
+
+const useThumbnails = (presets: GrayScottPreset[]) => {
+  const [thumbnails, setThumbnails] = useState<Record<string, string>>(() => Object.fromEntries(thumbnailCache));
+
+  useEffect(() => {
+    let cancelled = false;
+    let timer: ReturnType<typeof setTimeout>;
+    const pending = presets.filter(preset => !thumbnailCache.has(preset.id));
+    let current: { preset: GrayScottPreset; sim: GrayScottPreview; steps: number } | null = null;
+
+    const work = () => {
+      if (cancelled) return;
+      if (!current) {
+        const preset = pending.shift();
+        if (!preset) return;
+        current = { preset, sim: new GrayScottPreview(preset), steps: 0 };
+      }
+      current.sim.run(STEPS_PER_SLICE);
+      current.steps += STEPS_PER_SLICE;
+      if (current.steps >= THUMBNAIL_STEPS) {
+        const url = fieldToDataUrl(current.sim.field, current.sim.size);
+        thumbnailCache.set(current.preset.id, url);
+        const id = current.preset.id;
+        setThumbnails(prev => ({ ...prev, [id]: url }));
+        current = null;
+      }
+      timer = setTimeout(work, 0);
+    };
+    timer = setTimeout(work, 0);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [presets]);
+
+  return thumbnails;
+};
+
+const toMapX = (kill: number) => ((kill - PHASE_MAP_BOUNDS.kill[0]) / (PHASE_MAP_BOUNDS.kill[1] - PHASE_MAP_BOUNDS.kill[0])) * MAP_WIDTH;
+const toMapY = (feed: number) => (1 - (feed - PHASE_MAP_BOUNDS.feed[0]) / (PHASE_MAP_BOUNDS.feed[1] - PHASE_MAP_BOUNDS.feed[0])) * MAP_HEIGHT;
+
+/**
+ * Feed/kill phase map for the Gray-Scott model. Clicking anywhere sets both
+ * rates; preset markers and the thumbnail grid jump to named regimes. The
+ * dashed curve is the saddle-node line beyond which patterns cannot persist.
+ */
+export const PhaseMapPicker: React.FC<{ params: ReactionDiffusionParams; onChange: (params: Partial<ReactionDiffusionParams>) => void; }> = ({ params, onChange }) => {
+  const thumbnails = useThumbnails(GRAY_SCOTT_PRESETS);
+
+  const saddleNodePath = useMemo(() => {
+    const points: string[] = [];
+    for (let i = 0; i <= 100; i++) {
+      const feed = PHASE_MAP_BOUNDS.feed[0] + (i / 100) * (PHASE_MAP_BOUNDS.feed[1] - PHASE_MAP_BOUNDS.feed[0]);
+      points.push(`${toMapX(saddleNodeKill(feed)).toFixed(1)},${toMapY(feed).toFixed(1)}`);
+    }
+    return `M${points.join('L')}`;
+  }, []);
+
+  const handleMapClick = (e: React.MouseEvent<SVGSVGElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const x = (e.clientX - rect.left) / rect.width;
+    const y = (e.clientY - rect.top) / rect.height;
+    const kill = PHASE_MAP_BOUNDS.kill[0] + x * (PHASE_MAP_BOUNDS.kill[1] - PHASE_MAP_BOUNDS.kill[0]);
+    const feed = PHASE_MAP_BOUNDS.feed[0] + (1 - y) * (PHASE_MAP_BOUNDS.feed[1] - PHASE_MAP_BOUNDS.feed[0]);
+    onChange({ feed: Number(feed.toFixed(4)), kill: Number(kill.toFixed(4)) });
+  };
+
+  const activePreset = GRAY_SCOTT_PRESETS.find(p => Math.abs(p.feed - params.feed) < 1e-4 && Math.abs(p.kill - params.kill) < 1e-4);
+
+  return (
+    <div className="space-y-3">
+      <div>
+        <p className="text-sm text-brand-tan/80 mb-1">Phase Map (click to choose feed/kill)</p>
+        <svg
+          viewBox={`0 0 ${MAP_WIDTH} ${MAP_HEIGHT}`}
+          className="w-full bg-brand-m-brown rounded-md cursor-crosshair"
+          onClick={handleMapClick}
+          role="img"
+          aria-label="Gray-Scott feed and kill phase map"
+        >
+          <clipPath id="phase-map-clip"><rect width={MAP_WIDTH} height={MAP_HEIGHT} /></clipPath>
+          <path d={saddleNodePath} fill="none" stroke="#a78a70" strokeDasharray="4 3" clipPath="url(#phase-map-clip)" />
+          {GRAY_SCOTT_PRESETS.map(preset => (
+            <circle key={preset.id} cx={toMapX(preset.kill)} cy={toMapY(preset.feed)} r={3} fill="#a78a70">
+              <title>{preset.name}</title>
+            </circle>
+          ))}
+          <circle cx={toMapX(params.kill)} cy={toMapY(params.feed)} r={5} fill="none" stroke="#7c1f23" strokeWidth={2} />
+          <text x={4} y={12} fontSize={9} fill="#a78a70">F = {PHASE_MAP_BOUNDS.feed[1]}</text>
+          <text x={4} y={MAP_HEIGHT - 4} fontSize={9} fill="#a78a70">k = {PHASE_MAP_BOUNDS.kill[0]}</text>
+          <text x={MAP_WIDTH - 4} y={MAP_HEIGHT - 4} fontSize={9} fill="#a78a70" textAnchor="end">k = {PHASE_MAP_BOUNDS.kill[1]}</text>
+        </svg>
+      </div>
+      <div className="grid grid-cols-5 gap-1">
+        {GRAY_SCOTT_PRESETS.map(preset => (
+          <button
+            key={preset.id}
+            onClick={() => onChange({ feed: preset.feed, kill: preset.kill })}
+            className={`flex flex-col items-center rounded-md p-1 transition-colors ${activePreset?.id === preset.id ? 'bg-brand-red' : 'bg-brand-m-brown hover:bg-brand-m-brown/80'}`}
+            title={`${preset.name}${preset.pearsonClass ? ` (class ${preset.pearsonClass})` : ''}: ${preset.description}`}
+            aria-pressed={activePreset?.id === preset.id}
+          >
+            {thumbnails[preset.id]
+              ? <img src={thumbnails[preset.id]} alt="" className="w-full aspect-square rounded-sm" style={{ imageRendering: 'pixelated' }} />
+              : <div className="w-full aspect-square rounded-sm bg-brand-d-brown animate-pulse" />}
+            <span className="text-[10px] leading-tight text-brand-tan mt-1 text-center">{preset.name}</span>
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+};
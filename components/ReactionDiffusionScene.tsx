@@ -1,52 +1,72 @@
 import React, { useRef, useMemo, useEffect } from 'react';
-import { Canvas, useFrame, useThree, createPortal } from '@react-three/fiber';
+import { Canvas } from '@react-three/fiber';
+import type { ThreeEvent } from '@react-three/fiber';
 import { OrbitControls, TorusKnot } from '@react-three/drei';
 import * as THREE from 'three';
-import type { ReactionDiffusionParams } from '../types';
+import type { ReactionDiffusionParams, BoundaryCondition, BrushSettings, InitialCondition, ObstaclePreset } from '../types';
+import { BOUNDARY_MODE_INDEX, DIFFUSION_U, DIFFUSION_V, LAPLACIAN_CORNER_WEIGHT, LAPLACIAN_EDGE_WEIGHT, RD_TIMESTEP, boundaryGlsl, glslFloat } from '../simulation/grayScott';
+import { useFieldSimulation, fieldVertexShader } from '../hooks/useFieldSimulation';
+import { useFieldBrush } from '../hooks/useFieldBrush';
+import { useObstacleMask } from '../hooks/useObstacleMask';
+import { useInitialCondition } from '../hooks/useInitialCondition';
+import { useRequestCounter } from '../hooks/useRequestCounter';
 import { Effects } from './Effects';
 import { Starfield } from './Starfield';
 import { Lighting } from './Lighting';
 
 const FBO_SIZE = 512;
 
-const simVertexShader = `
-  varying vec2 vUv;
-  void main() {
-    vUv = uv;
-    gl_Position = vec4(position, 1.0);
-  }
-`;
-
+// Mirrored by GrayScottSolver in simulation/grayScott.ts. Neighbours beyond
+// the edge follow the boundary condition (see boundaryGlsl). A neighbour under
+// the obstacle mask reads as the centre cell, so no flux crosses its faces;
+// masked cells hold the unreacted state U = 1, V = 0.
 const simFragmentShader = `
   varying vec2 vUv;
   uniform sampler2D uTexture;
+  uniform sampler2D uObstacles;
   uniform vec2 uPixelSize;
   uniform float uFeed;
   uniform float uKill;
+  ${boundaryGlsl}
 
-  const float Du = 0.16;
-  const float Dv = 0.08;
-  const float dt = 1.0;
+  const float Du = ${glslFloat(DIFFUSION_U)};
+  const float Dv = ${glslFloat(DIFFUSION_V)};
+  const float dt = ${glslFloat(RD_TIMESTEP)};
+  const float edgeWeight = ${glslFloat(LAPLACIAN_EDGE_WEIGHT)};
+  const float cornerWeight = ${glslFloat(LAPLACIAN_CORNER_WEIGHT)};
 
-  vec2 laplacian(vec2 uv) {
+  vec2 neighbour(vec2 uv, vec2 centre) {
+    if (isGhostValue(uv)) return uBoundaryValue;
+    uv = boundaryUv(uv);
+    return texture2D(uObstacles, uv).r > 0.5 ? centre : texture2D(uTexture, uv).rg;
+  }
+
+  vec2 laplacian(vec2 uv, vec2 centre) {
     vec2 sum = vec2(0.0);
-    sum += texture2D(uTexture, uv + vec2(0.0, uPixelSize.y)).rg * 0.2;
-    sum += texture2D(uTexture, uv - vec2(0.0, uPixelSize.y)).rg * 0.2;
-    sum += texture2D(uTexture, uv + vec2(uPixelSize.x, 0.0)).rg * 0.2;
-    sum += texture2D(uTexture, uv - vec2(uPixelSize.x, 0.0)).rg * 0.2;
-    sum += texture2D(uTexture, uv + uPixelSize * vec2(1,1)).rg * 0.05;
-    sum += texture2D(uTexture, uv + uPixelSize * vec2(-1,1)).rg * 0.05;
-    sum += texture2D(uTexture, uv + uPixelSize * vec2(1,-1)).rg * 0.05;
-    sum += texture2D(uTexture, uv + uPixelSize * vec2(-1,-1)).rg * 0.05;
-    sum -= texture2D(uTexture, uv).rg;
+    sum += neighbour(uv + vec2(0.0, uPixelSize.y), centre) * edgeWeight;
+    sum += neighbour(uv - vec2(0.0, uPixelSize.y), centre) * edgeWeight;
+    sum += neighbour(uv + vec2(uPixelSize.x, 0.0), centre) * edgeWeight;
+    sum += neighbour(uv - vec2(uPixelSize.x, 0.0), centre) * edgeWeight;
+    sum += neighbour(uv + uPixelSize * vec2(1,1), centre) * cornerWeight;
+    sum += neighbour(uv + uPixelSize * vec2(-1,1), centre) * cornerWeight;
+    sum += neighbour(uv + uPixelSize * vec2(1,-1), centre) * cornerWeight;
+    sum += neighbour(uv + uPixelSize * vec2(-1,-1), centre) * cornerWeight;
+    sum -= centre;
     return sum;
   }
 
   void main() {
+    if (texture2D(uObstacles, vUv).r > 0.5) {
+      gl_FragColor = vec4(1.0, 0.0, 0.0, 1.0);
+      return;
+    }
+
     vec2 state = texture2D(uTexture, vUv).rg;
     float u = state.r;
     float v = state.g;
     
+    vec2 L = laplacian(vUv, state);
+    
     float reaction = u * v * v;
     
     float u_new = u + (Du * L.x - reaction + uFeed * (1.0 - u)) * dt;
@@ -59,21 +79,46 @@ const simFragmentShader = `
   }
 `;
 
-const RDSystem: React.FC<{ params: ReactionDiffusionParams, onTextureUpdate: (texture: THREE.Texture) => void }> = ({ params, onTextureUpdate }) => {
-  const { gl } = useThree();
-  const [scene, camera] = useMemo(() => [new THREE.Scene(), new THREE.OrthographicCamera(-1, 1, 1, -1, 0, 1)], []);
+// TorusKnotGeometry's default (p, q) = (2, 3) curve, sampled to measure its
+// length: the brush aspect is that length over the tube circumference.
+const KNOT_RADIUS = 1;
+const KNOT_TUBE = 0.4;
+const OBSTACLE_HEIGHT = 0.06; // Outward displacement of the surface under obstacles
+const KNOT_ASPECT = (() => {
+  const point = (t: number) => {
+    const cs = Math.cos(1.5 * t);
+    return new THREE.Vector3(
+      KNOT_RADIUS * (2 + cs) * 0.5 * Math.cos(t),
+      KNOT_RADIUS * (2 + cs) * 0.5 * Math.sin(t),
+      KNOT_RADIUS * Math.sin(1.5 * t) * 0.5,
+    );
+  };
+  const samples = 1024;
+  let length = 0;
+  for (let i = 1; i <= samples; i++) {
+    length += point((i / samples) * 4 * Math.PI).distanceTo(point(((i - 1) / samples) * 4 * Math.PI));
+  }
+  return length / (2 * Math.PI * KNOT_TUBE);
+})();
 
-  const fbo1 = useMemo(() => new THREE.WebGLRenderTarget(FBO_SIZE, FBO_SIZE, { type: THREE.FloatType }), []);
-  const fbo2 = useMemo(() => new THREE.WebGLRenderTarget(FBO_SIZE, FBO_SIZE, { type: THREE.FloatType }), []);
-  
+const useReactionDiffusion = (
+  params: ReactionDiffusionParams,
+  boundary: BoundaryCondition,
+  initialCondition: InitialCondition,
+  obstacles: THREE.Texture,
+  onTextureUpdate: (texture: THREE.Texture) => void,
+) => {
   const simulationMaterial = useMemo(() => new THREE.ShaderMaterial({
     uniforms: {
       uTexture: { value: null },
+      uObstacles: { value: null },
+      uBoundary: { value: 0 },
+      uBoundaryValue: { value: new THREE.Vector2() },
       uPixelSize: { value: new THREE.Vector2(1 / FBO_SIZE, 1 / FBO_SIZE) },
       uFeed: { value: params.feed },
       uKill: { value: params.kill }
     },
-    vertexShader: simVertexShader,
+    vertexShader: fieldVertexShader,
     fragmentShader: simFragmentShader
   }), []);
 
@@ -81,73 +126,115 @@ const RDSystem: React.FC<{ params: ReactionDiffusionParams, onTextureUpdate: (te
     simulationMaterial.uniforms.uFeed.value = params.feed;
     simulationMaterial.uniforms.uKill.value = params.kill;
   }, [params, simulationMaterial]);
-  
+
   useEffect(() => {
-    const seedSize = 20;
-    const initialData = new Float32Array(FBO_SIZE * FBO_SIZE * 4);
-    for (let i = 0; i < FBO_SIZE * FBO_SIZE; i++) {
-      const x = i % FBO_SIZE;
-      const y = Math.floor(i / FBO_SIZE);
-      initialData[i * 4] = 1.0;
-      const isSeed = Math.abs(x - FBO_SIZE / 2) < seedSize && Math.abs(y - FBO_SIZE / 2) < seedSize;
-      initialData[i * 4 + 1] = isSeed ? 1.0 : 0.0;
-    }
-    const initialTexture = new THREE.DataTexture(initialData, FBO_SIZE, FBO_SIZE, THREE.RGBAFormat, THREE.FloatType);
-    initialTexture.needsUpdate = true;
-    
-    const tempScene = new THREE.Scene();
-    const tempMesh = new THREE.Mesh(new THREE.PlaneGeometry(2, 2), new THREE.MeshBasicMaterial({ map: initialTexture }));
-    tempScene.add(tempMesh);
-    
-    gl.setRenderTarget(fbo1);
-    gl.render(tempScene, camera);
-    gl.setRenderTarget(null);
-  }, [gl, camera, fbo1]);
-
-  let currentFBO = fbo1;
-  let nextFBO = fbo2;
-
-  useFrame(() => {
-    for (let i = 0; i < 8; i++) {
-        simulationMaterial.uniforms.uTexture.value = currentFBO.texture;
-        gl.setRenderTarget(nextFBO);
-        gl.render(scene, camera);
-        [currentFBO, nextFBO] = [nextFBO, currentFBO];
-    }
-    onTextureUpdate(currentFBO.texture);
-  });
+    simulationMaterial.uniforms.uBoundary.value = BOUNDARY_MODE_INDEX[boundary.mode];
+    simulationMaterial.uniforms.uBoundaryValue.value.set(...boundary.value);
+  }, [boundary, simulationMaterial]);
 
-  return createPortal(
-    <mesh material={simulationMaterial}><planeGeometry args={[2, 2]} /></mesh>,
-    scene
-  );
+  useEffect(() => {
+    simulationMaterial.uniforms.uObstacles.value = obstacles;
+  }, [obstacles, simulationMaterial]);
+
+  return useFieldSimulation({
+    size: FBO_SIZE,
+    material: simulationMaterial,
+    initialState: useInitialCondition(initialCondition, FBO_SIZE),
+    seed: initialCondition.seed,
+    stepsPerFrame: 8,
+    onFrame: onTextureUpdate,
+  });
 };
 
-const DisplayMesh: React.FC = () => {
+interface ReactionDiffusionSceneProps {
+  params: ReactionDiffusionParams;
+  boundary: BoundaryCondition;
+  initialCondition: InitialCondition;
+  restartRequest: number; // Incremented to restart from the initial condition
+  brush: BrushSettings;
+  undoRequest: number; // Incremented to undo the most recent brush stroke
+  onUndoDepthChange: (depth: number) => void;
+  obstaclePreset: ObstaclePreset;
+  obstacleRequest: number; // Incremented to replace the mask with obstaclePreset
+}
+
+const DisplayMesh: React.FC<ReactionDiffusionSceneProps> = ({
+  params,
+  boundary,
+  initialCondition,
+  restartRequest,
+  brush,
+  undoRequest,
+  onUndoDepthChange,
+  obstaclePreset,
+  obstacleRequest,
+}) => {
   const materialRef = useRef<THREE.MeshStandardMaterial>(null!);
+  const isPainting = useRef(false);
 
   const onTextureUpdate = (texture: THREE.Texture) => {
-    if (materialRef.current) {
-      (materialRef.current.userData.shader.uniforms.uTexture as THREE.IUniform).value = texture;
+    const shader = materialRef.current?.userData.shader;
+    if (shader) {
+      (shader.uniforms.uTexture as THREE.IUniform).value = texture;
     }
   };
 
+  const obstacles = useObstacleMask(FBO_SIZE, obstaclePreset, true);
+  const simulation = useReactionDiffusion(params, boundary, initialCondition, obstacles.texture, onTextureUpdate);
+  const { beginStroke, paint, undo } = useFieldBrush(simulation, brush, KNOT_ASPECT, onUndoDepthChange, obstacles);
+  useRequestCounter(undoRequest, undo);
+  useRequestCounter(restartRequest, simulation.reset);
+  useRequestCounter(obstacleRequest, () => obstacles.load(obstaclePreset, obstacleRequest));
+
+  const handlePointerDown = (e: ThreeEvent<PointerEvent>) => {
+    if (!brush.enabled || !e.uv) return;
+    e.stopPropagation();
+    isPainting.current = true;
+    beginStroke(e.uv);
+  };
+
+  const handlePointerMove = (e: ThreeEvent<PointerEvent>) => {
+    if (!isPainting.current || !e.uv) return;
+    e.stopPropagation();
+    paint(e.uv);
+  };
+
+  const endStroke = () => {
+    isPainting.current = false;
+  };
+
+  // The material has no maps, so three declares no vUv; pass the UV through our own varying.
   const onBeforeCompile = (shader: THREE.Shader) => {
     shader.uniforms.uTexture = { value: null };
+    shader.uniforms.uObstacles = { value: obstacles.texture };
+    shader.vertexShader = `
+      uniform sampler2D uObstacles;
+      varying vec2 vFieldUv;
+      ${shader.vertexShader}
+    `.replace(
+      '#include <begin_vertex>',
+      `
+      #include <begin_vertex>
+      vFieldUv = uv;
+      transformed += objectNormal * texture2D(uObstacles, uv).r * ${glslFloat(OBSTACLE_HEIGHT)};
+      `
+    );
     shader.fragmentShader = `
       uniform sampler2D uTexture;
-      varying vec2 vUv; // Use the default vUv from MeshStandardMaterial
+      uniform sampler2D uObstacles;
+      varying vec2 vFieldUv;
       ${shader.fragmentShader}
     `.replace(
       '#include <color_fragment>',
       `
       #include <color_fragment>
-      vec2 state = texture2D(uTexture, vUv).rg;
+      vec2 state = texture2D(uTexture, vFieldUv).rg;
       float u = state.r;
       float v = state.g;
 
       vec3 patternColor = vec3(0.9, 0.9, 0.1) * v + vec3(0.1, 0.1, 0.9) * (1.0 - v);
       diffuseColor.rgb = mix(diffuseColor.rgb, patternColor, smoothstep(0.0, 0.5, v));
+      diffuseColor.rgb = mix(diffuseColor.rgb, vec3(0.45, 0.38, 0.32), texture2D(uObstacles, vFieldUv).r);
 
       float normalOffset = (v - 0.5) * 0.1;
       vec3 newNormal = normalize(vNormal + vec3(dFdx(normalOffset), dFdy(normalOffset), 0.0));
@@ -163,22 +250,26 @@ const DisplayMesh: React.FC = () => {
   };
 
   return (
-    <>
-      <RDSystem params={{ feed: 0.055, kill: 0.062 }} onTextureUpdate={onTextureUpdate} />
-      <TorusKnot args={[1, 0.4, 256, 32]} castShadow>
-          <meshStandardMaterial
-            ref={materialRef}
-            metalness={0.2}
-            roughness={0.5}
-            onBeforeCompile={onBeforeCompile}
-          />
-      </TorusKnot>
-    </>
+    <TorusKnot
+      args={[KNOT_RADIUS, KNOT_TUBE, 512, 64]}
+      castShadow
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={endStroke}
+      onPointerLeave={endStroke}
+    >
+        <meshStandardMaterial
+          ref={materialRef}
+          metalness={0.2}
+          roughness={0.5}
+          onBeforeCompile={onBeforeCompile}
+        />
+    </TorusKnot>
   );
 };
 
 
-export const ReactionDiffusionScene: React.FC<{ params: ReactionDiffusionParams }> = ({ params }) => {
+export const ReactionDiffusionScene: React.FC<ReactionDiffusionSceneProps> = (props) => {
   return (
     <Canvas
       shadows={{ type: THREE.PCFSoftShadowMap }}
@@ -187,9 +278,10 @@ export const ReactionDiffusionScene: React.FC<{ params: ReactionDiffusionParams
     >
       <Starfield />
       <Lighting />
-      <DisplayMesh />
-      <OrbitControls enableDamping dampingFactor={0.1} />
+      <DisplayMesh {...props} />
+      {/* Drags paint while the brush is on, so the camera only orbits when it is off. */}
+      <OrbitControls enableDamping dampingFactor={0.1} enabled={!props.brush.enabled} />
       <Effects />
     </Canvas>
   );
-};
\ No newline at end of file
+};
@@ -0,0 +1,57 @@
+import React, { useMemo, useState } from 'react';
+import { ComposedChart, Bar, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
+import type { SimulationData } from '../types';
+
+export const SpeedDistributionChart: React.FC<{ distribution: SimulationData['speedDistribution'] }> = ({ distribution }) => {
+  // -1 selects the whole gas, otherwise a slice index.
+  const [slice, setSlice] = useState(-1);
+  const histogram = slice < 0 ? distribution.global : distribution.slices[slice];
+
+  const chartData = useMemo(() => histogram
+    ? distribution.binCenters.map((speed, i) => ({
+        speed: speed.toFixed(3),
+        measured: histogram.density[i],
+        fit: histogram.fit[i],
+      }))
+    : [], [distribution.binCenters, histogram]);
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-2">
+        <h3 className="text-md font-semibold text-brand-tan">Speed Distribution</h3>
+        <select
+          value={slice}
+          onChange={(e) => setSlice(parseInt(e.target.value, 10))}
+          className="text-xs bg-brand-m-brown text-brand-tan rounded py-1 px-2"
+          aria-label="Speed distribution region"
+        >
+          <option value={-1}>Whole gas</option>
+          {distribution.slices.map((_, i) => <option key={i} value={i}>Slice {i + 1}</option>)}
+        </select>
+      </div>
+      <div className="grid grid-cols-2 gap-2 mb-2 text-center">
+        <div className="bg-brand-m-brown p-2 rounded-md">
+          <p className="text-xs text-brand-tan/80">Fitted T</p>
+          <p className="text-sm font-mono text-brand-red">{histogram ? histogram.temperature.toExponential(3) : '–'}</p>
+        </div>
+        <div className="bg-brand-m-brown p-2 rounded-md">
+          <p className="text-xs text-brand-tan/80">Distance from Equilibrium (KL)</p>
+          <p className="text-sm font-mono text-brand-red">{histogram ? histogram.klDivergence.toFixed(4) : '–'}</p>
+        </div>
+      </div>
+      <div className="w-full h-40">
+        <ResponsiveContainer width="100%" height="100%">
+          <ComposedChart data={chartData} margin={{ top: 5, right: 20, left: -10, bottom: 5 }}>
+            <CartesianGrid strokeDasharray="3 3" stroke="#59453c" />
+            <XAxis dataKey="speed" tick={{ fill: '#a78a70' }} fontSize={10} />
+            <YAxis tick={{ fill: '#a78a70' }} fontSize={10} tickFormatter={(v: number) => v.toPrecision(2)} />
+            <Tooltip contentStyle={{ backgroundColor: '#362222', border: 'none' }} labelStyle={{ color: '#a78a70' }} />
+            <Legend wrapperStyle={{ fontSize: '12px' }} />
+            <Bar dataKey="measured" name="Measured" fill="#7c1f23" isAnimationActive={false} />
+            <Line type="monotone" dataKey="fit" name="Maxwell–Boltzmann fit" stroke="#a78a70" strokeWidth={2} dot={false} isAnimationActive={false} />
+          </ComposedChart>
+        </ResponsiveContainer>
+      </div>
+    </div>
+  );
+};
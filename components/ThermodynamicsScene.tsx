@@ -6,15 +6,7 @@ import type { SimulationParams, SimulationData } from '../types';
 import { Effects } from './Effects';
 import { Starfield } from './Starfield';
 import { Lighting } from './Lighting';
-
-const BOX_SIZE = 6;
-const SLICES = 10;
-
-interface Particle {
-  position: THREE.Vector3;
-  velocity: THREE.Vector3;
-  size: number;
-}
+import { ThermodynamicsEngine, BOX_SIZE, PARTICLE_RADIUS_SCALE } from '../simulation/thermodynamicsEngine';
 
 const tempColor = new THREE.Color();
 const colorScale = (t: number) => {
@@ -22,63 +14,31 @@ const colorScale = (t: number) => {
 };
 
 const Particles: React.FC<{ params: SimulationParams; onDataUpdate: (data: SimulationData) => void; }> = ({ params, onDataUpdate }) => {
-  const { particleCount, heat, isPaused } = params;
+  const { particleCount, isPaused } = params;
   const meshRef = useRef<THREE.InstancedMesh>(null!);
-  const particlesRef = useRef<Particle[]>([]);
+  const engineRef = useRef<ThermodynamicsEngine | null>(null);
+  if (!engineRef.current) engineRef.current = new ThermodynamicsEngine(params);
   const dummy = useMemo(() => new THREE.Object3D(), []);
 
   useEffect(() => {
-    particlesRef.current = Array.from({ length: particleCount }, () => ({
-      position: new THREE.Vector3(
-        (Math.random() - 0.5) * BOX_SIZE,
-        (Math.random() - 0.5) * BOX_SIZE,
-        (Math.random() - 0.5) * BOX_SIZE
-      ),
-      velocity: new THREE.Vector3(
-        (Math.random() - 0.5) * 0.1,
-        (Math.random() - 0.5) * 0.1,
-        (Math.random() - 0.5) * 0.1
-      ),
-      size: Math.random() * 0.5 + 0.5
-    }));
+    engineRef.current!.setParams(params);
     if (meshRef.current) {
-        meshRef.current.count = particleCount;
+        meshRef.current.count = params.particleCount;
     }
-  }, [particleCount]);
+  }, [params]);
 
   useFrame((state, delta) => {
     if (isPaused || !meshRef.current) return;
 
-    const particles = particlesRef.current;
-    const halfBox = BOX_SIZE / 2;
-    const sliceEnergies = Array(SLICES).fill(0);
-    const sliceCounts = Array(SLICES).fill(0);
-    let energyIn = 0;
-    let energyOut = 0;
-
-    particles.forEach((p, i) => {
-      p.position.addScaledVector(p.velocity, delta * 60);
+    const engine = engineRef.current!;
+    if (engine.advance(delta) === 0) return;
 
-      if (Math.abs(p.position.x) > halfBox) {
-        p.velocity.x *= -1;
-        p.position.x = Math.sign(p.position.x) * halfBox;
-
-        if (p.position.x > 0) {
-          const oldSpeed = p.velocity.length();
-          p.velocity.x += Math.sign(p.velocity.x) * heat * 0.1;
-          p.velocity.multiplyScalar(1.01);
-          energyIn += p.velocity.lengthSq() - oldSpeed * oldSpeed;
-        } else {
-          const oldSpeed = p.velocity.length();
-          p.velocity.multiplyScalar(0.9);
-          energyOut += oldSpeed * oldSpeed - p.velocity.lengthSq();
-        }
-      }
-      if (Math.abs(p.position.y) > halfBox) p.velocity.y *= -1;
-      if (Math.abs(p.position.z) > halfBox) p.velocity.z *= -1;
-      
-      dummy.position.copy(p.position);
-      const speed = p.velocity.length();
+    engine.particles.forEach((p, i) => {
+      // The mesh is rebuilt before the engine hears about a new particle count.
+      if (i >= meshRef.current.count) return;
+      const { position, velocity } = p;
+      dummy.position.set(position.x, position.y, position.z);
+      const speed = Math.hypot(velocity.x, velocity.y, velocity.z);
       const scale = p.size * (1 + speed * 2);
       dummy.scale.set(scale, scale, scale);
       dummy.updateMatrix();
@@ -86,44 +46,21 @@ const Particles: React.FC<{ params: SimulationParams; onDataUpdate: (data: Simul
 
       const normalizedSpeed = Math.min(speed * 5, 1.0);
       meshRef.current.setColorAt(i, colorScale(normalizedSpeed));
-
-      const sliceIndex = Math.floor(((p.position.x + halfBox) / BOX_SIZE) * SLICES);
-      if (sliceIndex >= 0 && sliceIndex < SLICES) {
-        sliceEnergies[sliceIndex] += speed * speed;
-        sliceCounts[sliceIndex]++;
-      }
     });
 
     meshRef.current.instanceMatrix.needsUpdate = true;
     if (meshRef.current.instanceColor) {
       meshRef.current.instanceColor.needsUpdate = true;
     }
-    
-    const temperatureGradient = sliceEnergies.map((energy, i) => 
-        sliceCounts[i] > 0 ? energy / sliceCounts[i] : 0
-    );
-    const tempHot = temperatureGradient[temperatureGradient.length - 1] || 1;
-    const tempCold = temperatureGradient[0] || 0.1;
-    const entropyProduction = (energyIn / Math.max(0.1, tempHot)) - (energyOut / Math.max(0.1, tempCold));
-    
-    let systemState: SimulationData['systemState'] = 'Chaotic';
-    const gradientStdDev = Math.sqrt(temperatureGradient.map(t => Math.pow(t - (tempHot+tempCold)/2, 2)).reduce((a,b) => a+b, 0) / SLICES);
-    
-    if (heat < 0.001) systemState = 'Near Equilibrium';
-    else if (gradientStdDev > 0.01 && Math.abs(entropyProduction) > 0.01) systemState = 'Steady State';
 
-    onDataUpdate({
-        temperatureGradient,
-        entropyProduction: Math.max(0, entropyProduction),
-        systemState,
-    });
+    onDataUpdate(engine.getData());
   });
 
   const particleTexture = useLoader(THREE.TextureLoader, '/dot.png');
 
   return (
     <instancedMesh ref={meshRef} args={[undefined, undefined, particleCount]}>
-      <planeGeometry args={[0.1, 0.1]} />
+      <planeGeometry args={[2 * PARTICLE_RADIUS_SCALE, 2 * PARTICLE_RADIUS_SCALE]} />
       <meshStandardMaterial map={particleTexture} blending={THREE.AdditiveBlending} depthWrite={false} transparent vertexColors />
     </instancedMesh>
   );
@@ -0,0 +1,63 @@
+import React, { useMemo } from 'react';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend } from 'recharts';
+import type { VicsekSweepPoint } from '../types';
+import { ChartPanel, tooltipProps } from './HistoryCharts';
+
+interface VicsekSweepChartProps {
+  points: VicsekSweepPoint[];
+  progress: number | null; // Fraction done while a sweep runs, null otherwise
+}
+
+const DENSITY_COLORS = ['#4878e0', '#a78a70', '#e04848'];
+
+// Steady-state polarization against noise, one line per density.
+export const VicsekSweepChart: React.FC<VicsekSweepChartProps> = ({ points, progress }) => {
+  const densities = useMemo(() => [...new Set(points.map(point => point.density))], [points]);
+  const chartData = useMemo(() => {
+    const rows = new Map<number, Record<string, number>>();
+    for (const point of points) {
+      const row = rows.get(point.noise) ?? { noise: point.noise };
+      row[`density${densities.indexOf(point.density)}`] = point.polarization;
+      rows.set(point.noise, row);
+    }
+    return [...rows.values()].sort((a, b) => a.noise - b.noise);
+  }, [points, densities]);
+
+  const axisProps = { tick: { fill: '#a78a70' }, fontSize: 10 };
+
+  return (
+    <div className="space-y-2">
+      <h2 className="text-lg font-semibold text-brand-red">Noise Sweep</h2>
+      {progress !== null && (
+        <p className="text-xs text-brand-tan/80">Sweeping… {(progress * 100).toFixed(0)}%</p>
+      )}
+      {points.length > 0 ? (
+        <ChartPanel title="Steady-State Polarization" height="h-48">
+          <LineChart data={chartData} margin={{ top: 5, right: 20, left: 0, bottom: 5 }}>
+            <CartesianGrid strokeDasharray="3 3" stroke="#59453c" />
+            <XAxis dataKey="noise" type="number" domain={[0, 1]} {...axisProps} />
+            <YAxis domain={[0, 1]} {...axisProps} />
+            <Tooltip {...tooltipProps} labelFormatter={(noise: number) => `η = ${noise.toFixed(2)}`} formatter={(v: number) => v.toFixed(3)} />
+            <Legend wrapperStyle={{ fontSize: '10px' }} />
+            {densities.map((density, i) => (
+              <Line
+                key={density}
+                type="monotone"
+                dataKey={`density${i}`}
+                name={`ρ = ${density.toFixed(3)}`}
+                stroke={DENSITY_COLORS[i % DENSITY_COLORS.length]}
+                strokeWidth={2}
+                isAnimationActive={false}
+              />
+            ))}
+          </LineChart>
+        </ChartPanel>
+      ) : (
+        progress === null && <p className="text-xs text-brand-tan/60">Run a sweep from the control panel to map the order–disorder transition.</p>
+      )}
+      <p className="text-xs text-brand-tan/60">
+        Noise η runs from 0 to 1 at each density ρ (boids per unit volume), each level starting from the last one's steady state. Polarization falls from 1 to near 0 across the transition, which moves to higher noise as the density rises.
+      </p>
+    </div>
+  );
+};
@@ -0,0 +1,124 @@
+import { useCallback, useEffect, useMemo, useRef } from 'react';
+import * as THREE from 'three';
+import type { BrushMode, BrushSettings } from '../types';
+import type { FieldSimulation } from './useFieldSimulation';
+import { fieldVertexShader } from './useFieldSimulation';
+import type { ObstacleMask } from './useObstacleMask';
+
+const MAX_UNDO = 10;
+
+// Shader modes; the obstacle modes paint the mask on the CPU instead.
+const BRUSH_MODES: Record<BrushMode, number> = { 'add-v': 0, 'remove-v': 1, 'reset-u': 2, 'draw-obstacle': -1, 'erase-obstacle': -1 };
+
+// State to restore on undo: a GPU copy of the field or a copy of the mask.
+type UndoEntry = { kind: 'field'; target: THREE.WebGLRenderTarget } | { kind: 'obstacles'; mask: Uint8Array };
+
+const disposeEntry = (entry: UndoEntry) => {
+  if (entry.kind === 'field') entry.target.dispose();
+};
+
+// Distances wrap in both UV directions, as they do on a closed surface.
+// uAspect stretches u so the brush is round on the mesh, not in UV space.
+const brushFragmentShader = `
+  varying vec2 vUv;
+  uniform sampler2D uTexture;
+  uniform vec2 uCenter;
+  uniform float uRadius;
+  uniform float uSoftness;
+  uniform float uAspect;
+  uniform int uMode;
+
+  void main() {
+    vec2 state = texture2D(uTexture, vUv).rg;
+    vec2 delta = vUv - uCenter;
+    delta -= floor(delta + 0.5);
+    float d = length(delta * vec2(uAspect, 1.0));
+    float weight = 1.0 - smoothstep(uRadius * (1.0 - uSoftness), uRadius, d);
+
+    if (uMode == 0) {
+      state.g = mix(state.g, 1.0, weight);
+    } else if (uMode == 1) {
+      state.g = mix(state.g, 0.0, weight);
+    } else {
+      state = mix(state, vec2(1.0, 0.0), weight);
+    }
+    gl_FragColor = vec4(state, 0.0, 1.0);
+  }
+`;
+
+/**
+ * Brush strokes on a (u, v) reaction-diffusion field addressed by UV. Each
+ * stroke snapshots the field first, so `undo` steps back one stroke at a
+ * time, up to MAX_UNDO strokes. `aspect` is the surface's world length along
+ * u divided by its length along v. The obstacle modes paint `obstacles`,
+ * snapshotting the mask instead.
+ */
+export const useFieldBrush = (
+  simulation: FieldSimulation,
+  settings: BrushSettings,
+  aspect: number,
+  onUndoDepthChange?: (depth: number) => void,
+  obstacles?: ObstacleMask,
+) => {
+  const material = useMemo(() => new THREE.ShaderMaterial({
+    uniforms: {
+      uTexture: { value: null },
+      uCenter: { value: new THREE.Vector2() },
+      uRadius: { value: 0 },
+      uSoftness: { value: 0 },
+      uAspect: { value: 1 },
+      uMode: { value: 0 },
+    },
+    vertexShader: fieldVertexShader,
+    fragmentShader: brushFragmentShader,
+  }), []);
+
+  const undoStack = useRef<UndoEntry[]>([]);
+  const isObstacleMode = settings.mode === 'draw-obstacle' || settings.mode === 'erase-obstacle';
+  const onUndoDepthChangeRef = useRef(onUndoDepthChange);
+  onUndoDepthChangeRef.current = onUndoDepthChange;
+
+  useEffect(() => {
+    material.uniforms.uRadius.value = settings.radius;
+    material.uniforms.uSoftness.value = settings.softness;
+    material.uniforms.uAspect.value = aspect;
+    material.uniforms.uMode.value = BRUSH_MODES[settings.mode];
+  }, [material, settings, aspect]);
+
+  const paint = useCallback((uv: THREE.Vector2) => {
+    if (isObstacleMode) {
+      obstacles?.paint(uv, settings.radius, settings.mode === 'erase-obstacle', aspect);
+      return;
+    }
+    material.uniforms.uCenter.value.copy(uv);
+    simulation.apply(material);
+  }, [material, simulation, obstacles, isObstacleMode, settings, aspect]);
+
+  const beginStroke = useCallback((uv: THREE.Vector2) => {
+    if (isObstacleMode && !obstacles) return;
+    undoStack.current.push(isObstacleMode
+      ? { kind: 'obstacles', mask: obstacles!.getMask().slice() }
+      : { kind: 'field', target: simulation.snapshot() });
+    if (undoStack.current.length > MAX_UNDO) disposeEntry(undoStack.current.shift()!);
+    onUndoDepthChangeRef.current?.(undoStack.current.length);
+    paint(uv);
+  }, [simulation, obstacles, isObstacleMode, paint]);
+
+  const undo = useCallback(() => {
+    const entry = undoStack.current.pop();
+    if (!entry) return;
+    if (entry.kind === 'field') simulation.restore(entry.target.texture);
+    else obstacles?.restore(entry.mask);
+    disposeEntry(entry);
+    onUndoDepthChangeRef.current?.(undoStack.current.length);
+  }, [simulation, obstacles]);
+
+  useEffect(() => () => {
+    undoStack.current.forEach(disposeEntry);
+    undoStack.current = [];
+    onUndoDepthChangeRef.current?.(0);
+    material.dispose();
+  }, [material]);
+
+  return { beginStroke, paint, undo };
+};
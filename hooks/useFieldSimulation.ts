@@ -0,0 +1,144 @@
+import { useCallback, useEffect, useMemo, useRef } from 'react';
+import { useFrame, useThree } from '@react-three/fiber';
+import * as THREE from 'three';
+import { SeededRandom } from '../simulation/random';
+
+export interface FieldSimulationOptions {
+  size: number;
+  // Update pass; reads the previous state from its `uTexture` uniform.
+  material: THREE.ShaderMaterial;
+  // RGBA float texel data (size * size * 4) for a reset with the given seed.
+  // A new function (by identity) or seed resets the field.
+  initialState: (random: SeededRandom) => Float32Array;
+  seed?: number;
+  stepsPerFrame?: number;
+  isPaused?: boolean;
+  // Called every frame, paused or not, with the texture holding the current state.
+  onFrame?: (texture: THREE.Texture) => void;
+}
+
+// Full-screen quad vertex stage shared by update passes.
+export const fieldVertexShader = `
+  varying vec2 vUv;
+  void main() {
+    vUv = uv;
+    gl_Position = vec4(position, 1.0);
+  }
+`;
+
+const copyFragmentShader = `
+  varying vec2 vUv;
+  uniform sampler2D uTexture;
+  void main() {
+    gl_FragColor = texture2D(uTexture, vUv);
+  }
+`;
+
+/**
+ * Ping-pong GPGPU simulation of a 2D field stored in a pair of float render
+ * targets. The swap state lives in refs, so it survives re-renders. Steps run
+ * inside useFrame unless paused; `step` advances manually, `reset` reseeds
+ * from `initialState`, `load` replaces the field with arbitrary texel data and
+ * `readPixels` resolves to an async readback of the current state. `apply`,
+ * `snapshot` and `restore` let tools edit the field and undo those edits.
+ */
+export const useFieldSimulation = (options: FieldSimulationOptions) => {
+  const { size, material, seed = 1, stepsPerFrame = 1, isPaused = false } = options;
+  const gl = useThree(state => state.gl);
+  const optionsRef = useRef(options);
+  optionsRef.current = options;
+
+  const targets = useMemo(() => [0, 1].map(() => new THREE.WebGLRenderTarget(size, size, { type: THREE.FloatType })), [size]);
+  const [scene, camera, quad] = useMemo(() => {
+    const quad = new THREE.Mesh(new THREE.PlaneGeometry(2, 2), material);
+    const scene = new THREE.Scene();
+    scene.add(quad);
+    return [scene, new THREE.OrthographicCamera(-1, 1, 1, -1, 0, 1), quad] as const;
+  }, [material]);
+  const copyMaterial = useMemo(() => new THREE.ShaderMaterial({
+    uniforms: { uTexture: { value: null } },
+    vertexShader: fieldVertexShader,
+    fragmentShader: copyFragmentShader,
+  }), []);
+
+  const current = useRef(0);
+  const stepCount = useRef(0);
+
+  const getTexture = useCallback(() => targets[current.current].texture, [targets]);
+  const getStepCount = useCallback(() => stepCount.current, []);
+
+  // Renders `pass` over the full quad into `target`, restoring the caller's target.
+  const render = useCallback((pass: THREE.ShaderMaterial, target: THREE.WebGLRenderTarget) => {
+    quad.material = pass;
+    const previousTarget = gl.getRenderTarget();
+    gl.setRenderTarget(target);
+    gl.render(scene, camera);
+    gl.setRenderTarget(previousTarget);
+    quad.material = material;
+  }, [gl, scene, camera, quad, material]);
+
+  // Runs one extra pass (e.g. a brush) that reads the state from `uTexture`.
+  const apply = useCallback((pass: THREE.ShaderMaterial) => {
+    pass.uniforms.uTexture.value = targets[current.current].texture;
+    current.current = 1 - current.current;
+    render(pass, targets[current.current]);
+  }, [targets, render]);
+
+  const restore = useCallback((texture: THREE.Texture) => {
+    copyMaterial.uniforms.uTexture.value = texture;
+    render(copyMaterial, targets[current.current]);
+  }, [targets, render, copyMaterial]);
+
+  // GPU-side copy of the current state; the caller owns and disposes it.
+  const snapshot = useCallback(() => {
+    const target = new THREE.WebGLRenderTarget(size, size, { type: THREE.FloatType });
+    copyMaterial.uniforms.uTexture.value = targets[current.current].texture;
+    render(copyMaterial, target);
+    return target;
+  }, [size, targets, render, copyMaterial]);
+
+  const load = useCallback((data: Float32Array) => {
+    const texture = new THREE.DataTexture(data, size, size, THREE.RGBAFormat, THREE.FloatType);
+    texture.needsUpdate = true;
+    restore(texture);
+    texture.dispose();
+  }, [size, restore]);
+
+  const reset = useCallback((resetSeed = optionsRef.current.seed ?? 1) => {
+    load(optionsRef.current.initialState(new SeededRandom(resetSeed)));
+    stepCount.current = 0;
+  }, [load]);
+
+  const step = useCallback((count = 1) => {
+    for (let i = 0; i < count; i++) apply(material);
+    stepCount.current += count;
+  }, [apply, material]);
+
+  const readPixels = useCallback(async (): Promise<Float32Array> => {
+    const buffer = new Float32Array(size * size * 4);
+    await gl.readRenderTargetPixelsAsync(targets[current.current], 0, 0, size, size, buffer);
+    return buffer;
+  }, [gl, size, targets]);
+
+  useEffect(() => {
+    reset(seed);
+  }, [reset, seed, options.initialState]);
+
+  useEffect(() => () => {
+    targets.forEach(target => target.dispose());
+    quad.geometry.dispose();
+    copyMaterial.dispose();
+  }, [targets, quad, copyMaterial]);
+
+  useFrame(() => {
+    if (!isPaused) step(stepsPerFrame);
+    optionsRef.current.onFrame?.(getTexture());
+  });
+
+  return useMemo(
+    () => ({ getTexture, getStepCount, step, reset, load, apply, snapshot, restore, readPixels }),
+    [getTexture, getStepCount, step, reset, load, apply, snapshot, restore, readPixels],
+  );
+};
+
+export type FieldSimulation = ReturnType<typeof useFieldSimulation>;
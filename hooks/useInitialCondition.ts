@@ -0,0 +1,21 @@
+import { useCallback, useMemo } from 'react';
+import type { InitialCondition } from '../types';
+import type { SeededRandom } from '../simulation/random';
+import { generateInitialState } from '../simulation/initialConditions';
+import { rasterizeText } from '../services/imageSeeding';
+
+/**
+ * `initialState` generator for useFieldSimulation built from an
+ * InitialCondition. Its identity only changes with the condition, so the
+ * field resets exactly when the user picks a different start.
+ */
+export const useInitialCondition = (condition: InitialCondition, size: number) => {
+  const mask = useMemo(
+    () => (condition.kind === 'text' ? rasterizeText(condition.text, size) : condition.image),
+    [condition.kind, condition.text, condition.image, size],
+  );
+  return useCallback(
+    (random: SeededRandom) => generateInitialState(condition, size, random, mask),
+    [condition, size, mask],
+  );
+};
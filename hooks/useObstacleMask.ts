@@ -0,0 +1,64 @@
+import { useCallback, useEffect, useMemo, useRef } from 'react';
+import * as THREE from 'three';
+import type { ObstaclePreset } from '../types';
+import { OBSTACLE, generateObstacleMask } from '../simulation/obstacles';
+import { SeededRandom } from '../simulation/random';
+
+/**
+ * CPU-side obstacle mask for a field simulation, mirrored to an 8-bit
+ * texture the shaders sample as `uObstacles` (r = 1 inside obstacles).
+ * Starts from `initialPreset`; `paint` stamps or erases a hard-edged disc,
+ * wrapping across the edges when `wrap` is set, as on a closed surface.
+ */
+export const useObstacleMask = (size: number, initialPreset: ObstaclePreset, wrap: boolean) => {
+  const initialPresetRef = useRef(initialPreset);
+  const texture = useMemo(() => {
+    const mask = generateObstacleMask(initialPresetRef.current, size);
+    const texture = new THREE.DataTexture(mask, size, size, THREE.RedFormat, THREE.UnsignedByteType);
+    texture.needsUpdate = true;
+    return texture;
+  }, [size]);
+
+  useEffect(() => () => texture.dispose(), [texture]);
+
+  const getMask = useCallback(() => texture.image.data as Uint8Array, [texture]);
+
+  const restore = useCallback((mask: Uint8Array) => {
+    getMask().set(mask);
+    texture.needsUpdate = true;
+  }, [texture, getMask]);
+
+  const load = useCallback((preset: ObstaclePreset, seed = 1) => {
+    restore(generateObstacleMask(preset, size, new SeededRandom(seed)));
+  }, [size, restore]);
+
+  // `radius` is in UV units along v; `aspect` stretches u as in useFieldBrush.
+  const paint = useCallback((uv: THREE.Vector2, radius: number, erase: boolean, aspect = 1) => {
+    const mask = getMask();
+    const value = erase ? 0 : OBSTACLE;
+    const reachX = Math.ceil((radius / aspect) * size);
+    const reachY = Math.ceil(radius * size);
+    const cx = Math.floor(uv.x * size);
+    const cy = Math.floor(uv.y * size);
+    for (let dy = -reachY; dy <= reachY; dy++) {
+      for (let dx = -reachX; dx <= reachX; dx++) {
+        let x = cx + dx;
+        let y = cy + dy;
+        if (wrap) {
+          x = (x + size) % size;
+          y = (y + size) % size;
+        } else if (x < 0 || x >= size || y < 0 || y >= size) {
+          continue;
+        }
+        const du = ((cx + dx + 0.5) / size - uv.x) * aspect;
+        const dv = (cy + dy + 0.5) / size - uv.y;
+        if (du * du + dv * dv < radius * radius) mask[y * size + x] = value;
+      }
+    }
+    texture.needsUpdate = true;
+  }, [size, wrap, texture, getMask]);
+
+  return useMemo(() => ({ texture, getMask, load, paint, restore }), [texture, getMask, load, paint, restore]);
+};
+
+export type ObstacleMask = ReturnType<typeof useObstacleMask>;
@@ -0,0 +1,15 @@
+import { useEffect, useRef } from 'react';
+
+/**
+ * Runs `action` each time `request` changes after the first render. Lets a
+ * panel outside the Canvas trigger one-off actions (undo, restart) inside a
+ * scene by incrementing a counter in App state.
+ */
+export const useRequestCounter = (request: number, action: () => void) => {
+  const lastRequest = useRef(request);
+  useEffect(() => {
+    if (request === lastRequest.current) return;
+    lastRequest.current = request;
+    action();
+  }, [request, action]);
+};
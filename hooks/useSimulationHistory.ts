@@ -0,0 +1,44 @@
+import { useState, useCallback, useRef } from 'react';
+import type { SimulationData, HistorySettings } from '../types';
+
+/**
+ * Rolling buffer of timestamped samples, SimulationData unless another
+ * type is given. `record` can be called every
+ * frame; it keeps one sample per `sampleInterval` simulation steps and
+ * drops the oldest beyond `length`. A step counter going backwards means
+ * the engine was reset, which starts a fresh history.
+ */
+export const useSimulationHistory = <T extends { time: number } = SimulationData>(initialSettings: HistorySettings) => {
+  const [settings, setSettings] = useState<HistorySettings>(initialSettings);
+  const [history, setHistory] = useState<T[]>([]);
+  const lastSampleTime = useRef(-Infinity);
+
+  const record = useCallback((data: T) => {
+    if (data.time < lastSampleTime.current) {
+      lastSampleTime.current = -Infinity;
+      setHistory([]);
+    }
+    if (data.time - lastSampleTime.current < settings.sampleInterval) return;
+    lastSampleTime.current = data.time;
+    setHistory(prev => {
+      const next = prev.length >= settings.length ? prev.slice(prev.length - settings.length + 1) : prev.slice();
+      next.push(data);
+      return next;
+    });
+  }, [settings]);
+
+  const updateSettings = useCallback((newSettings: Partial<HistorySettings>) => {
+    setSettings(prev => ({ ...prev, ...newSettings }));
+    if (newSettings.length !== undefined) {
+      const length = newSettings.length;
+      setHistory(prev => prev.slice(Math.max(0, prev.length - length)));
+    }
+  }, []);
+
+  const clear = useCallback(() => {
+    lastSampleTime.current = -Infinity;
+    setHistory([]);
+  }, []);
+
+  return { history, settings, updateSettings, record, clear };
+};
@@ -0,0 +1,45 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { BoidsParams, VicsekSweepPoint } from '../types';
+import { VicsekSweep } from '../simulation/vicsekSweep';
+
+const SLICE_MS = 30; // Sweep work per timer callback, leaving the rest of each frame to the page
+
+/**
+ * Runs a VicsekSweep in slices between frames. `progress` is null while no
+ * sweep is running; `points` keeps the last sweep's results until the next
+ * one starts.
+ */
+export const useVicsekSweep = () => {
+  const [points, setPoints] = useState<VicsekSweepPoint[]>([]);
+  const [progress, setProgress] = useState<number | null>(null);
+  const timer = useRef<number | null>(null);
+
+  const cancel = useCallback(() => {
+    if (timer.current !== null) window.clearTimeout(timer.current);
+    timer.current = null;
+    setProgress(null);
+  }, []);
+
+  const start = useCallback((params: BoidsParams) => {
+    cancel();
+    const sweep = new VicsekSweep(params);
+    setPoints([]);
+    setProgress(0);
+    const run = () => {
+      const done = sweep.advance(SLICE_MS);
+      setPoints([...sweep.points]);
+      if (done) {
+        timer.current = null;
+        setProgress(null);
+      } else {
+        setProgress(sweep.progress);
+        timer.current = window.setTimeout(run, 0);
+      }
+    };
+    timer.current = window.setTimeout(run, 0);
+  }, [cancel]);
+
+  useEffect(() => cancel, [cancel]);
+
+  return { points, progress, start, cancel };
+};
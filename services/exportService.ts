@@ -0,0 +1,117 @@
+import type { SimulationParams, SimulationData, VisualizationType } from '../types';
+import { BOX_SIZE } from '../simulation/thermodynamicsEngine';
+
+export type ExportFormat = 'csv' | 'json';
+
+// Long enough for any browser to have started reading the blob.
+const REVOKE_DELAY_MS = 60_000;
+
+export interface SimulationExport {
+  exportedAt: string;
+  visualization: VisualizationType;
+  params: SimulationParams;
+  samples: SimulationData[];
+}
+
+export function buildExport(visualization: VisualizationType, params: SimulationParams, samples: SimulationData[]): SimulationExport {
+  return {
+    exportedAt: new Date().toISOString(),
+    visualization,
+    params,
+    samples,
+  };
+}
+
+export function toJson(data: SimulationExport): string {
+  return JSON.stringify(data, null, 2);
+}
+
+const CSV_COLUMNS = [
+  'visualization',
+  'exported_at',
+  'particle_count',
+  'heat',
+  'is_paused',
+  'seed',
+  'wall_model',
+  'hot_temperature',
+  'cold_temperature',
+  'averaging_window',
+  'time',
+  'system_state',
+  'entropy_production',
+  'heat_in',
+  'heat_out',
+  'thermal_conductivity',
+  'equilibrium_distance',
+  'slice',
+  'slice_x',
+  'temperature',
+  'local_entropy_production',
+  'boundary_heat_flux',
+  'slice_equilibrium_distance',
+];
+
+const csvValue = (value: string | number | boolean | undefined) => {
+  if (value === undefined) return '';
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * Tidy CSV: one row per sample per slice, with the export's metadata and
+ * parameters and the sample-level metrics repeated on each row, and nothing
+ * before the header so any CSV reader takes it as is.
+ * `boundary_heat_flux` is the flux through the slice's +x boundary, so it
+ * is empty for the hottest slice.
+ */
+export function toCsv(data: SimulationExport): string {
+  const lines = [CSV_COLUMNS.join(',')];
+  const { params } = data;
+  const metadata = [
+    data.visualization,
+    data.exportedAt,
+    params.particleCount,
+    params.heat,
+    params.isPaused,
+    params.seed,
+    params.wallModel,
+    params.hotTemperature,
+    params.coldTemperature,
+    params.averagingWindow,
+  ].map(csvValue).join(',');
+
+  for (const sample of data.samples) {
+    const slices = sample.temperatureGradient.length;
+    for (let k = 0; k < slices; k++) {
+      lines.push(metadata + ',' + [
+        sample.time,
+        sample.systemState,
+        sample.entropyProduction,
+        sample.heatFlux.hot,
+        sample.heatFlux.cold,
+        sample.thermalConductivity,
+        sample.speedDistribution.global?.klDivergence,
+        k,
+        ((k + 0.5) / slices - 0.5) * BOX_SIZE,
+        sample.temperatureGradient[k],
+        sample.localEntropyProduction[k],
+        sample.boundaryHeatFlux[k],
+        sample.speedDistribution.slices[k]?.klDivergence,
+      ].map(csvValue).join(','));
+    }
+  }
+  return lines.join('\n') + '\n';
+}
+
+export function downloadExport(data: SimulationExport, format: ExportFormat) {
+  const content = format === 'csv' ? toCsv(data) : toJson(data);
+  const type = format === 'csv' ? 'text/csv' : 'application/json';
+  const stamp = data.exportedAt.replace(/[:.]/g, '-');
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `thermovis-${data.visualization}-${stamp}.${format}`;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), REVOKE_DELAY_MS);
+}
@@ -17,25 +17,33 @@ export async function generateExplanation(params: SimulationParams, data: Simula
     return Promise.resolve("API Key is not configured. Please set the `process.env.API_KEY` environment variable to use this feature.");
   }
     
+  const wallDescription = params.wallModel === 'ad-hoc'
+    ? `Heat Input Level: ${params.heat.toFixed(4)} (a proxy for energy injection at the hot wall)`
+    : `Thermal Walls (${params.wallModel === 'diffuse' ? 'Maxwell diffuse reflection' : 'Andersen velocity resampling'}): hot wall at T = ${params.hotTemperature.toFixed(4)}, cold wall at T = ${params.coldTemperature.toFixed(4)}`;
+
   const prompt = `
     Analyze the following thermodynamic simulation state and explain the physical principles at play in a clear, accessible way for a science enthusiast.
 
     **Simulation Parameters:**
-    - Number of Particles: ${params.particleCount}
-    - Heat Input Level: ${params.heat.toFixed(4)} (a proxy for energy injection at the hot wall)
+    - Number of Particles: ${params.particleCount} (hard spheres that collide elastically with each other and the walls)
+    - ${wallDescription}
 
     **Observed System Data:**
-    - System State: ${data.systemState}
-    - Entropy Production Rate (proxy): ${data.entropyProduction.toFixed(4)}
-    - Temperature Gradient: The system is hotter on one side and colder on the other, as shown by the data. The average "temperature" (kinetic energy) across ${data.temperatureGradient.length} slices from cold to hot is: [${data.temperatureGradient.map(t => t.toFixed(4)).join(', ')}]
+    - System State: ${data.systemState} (from stationarity tests on a sliding window of the mean temperature and heat flux, with hysteresis)
+    - Relaxation Time to the last stationary state: ${data.relaxationTime === null ? 'not yet reached' : `${Math.round(data.relaxationTime)} steps`}
+    - Entropy Production Rate (bulk, sum of J·∇(1/T) over the volume, per step): ${data.entropyProduction.toExponential(3)}
+    - Heat Flux (per unit area per step): ${data.heatFlux.hot.toExponential(3)} entering at the hot wall, ${data.heatFlux.cold.toExponential(3)} leaving at the cold wall
+    - Effective Thermal Conductivity (Fourier's law): ${data.thermalConductivity.toFixed(4)}
+    - Distance from Equilibrium (KL divergence of the speed distribution from a Maxwell-Boltzmann fit): whole gas ${data.speedDistribution.global?.klDivergence.toFixed(4) ?? 'n/a'}, per slice from cold to hot [${data.speedDistribution.slices.map(s => s.klDivergence.toFixed(3)).join(', ')}]
+    - Temperature Gradient: The system is hotter on one side and colder on the other, as shown by the data. The average kinetic temperature (<v²>/3 per particle) across ${data.temperatureGradient.length} slices from cold to hot is: [${data.temperatureGradient.map(t => t.toFixed(4)).join(', ')}]
 
     **Your Task:**
     Explain what is happening in this simulation. Cover the following concepts based on the provided data:
     1.  **Far-From-Equilibrium Thermodynamics:** Briefly explain why this system is "far-from-equilibrium".
-    2.  **Energy Flow (Heat Flux):** Describe how energy is flowing from the hot wall to the cold wall through particle collisions.
+    2.  **Energy Flow (Heat Flux):** Describe how energy is conducted from the hot wall to the cold wall through particle-particle collisions.
     3.  **Temperature Gradient:** Explain what the temperature gradient data signifies.
     4.  **Entropy Production:** Explain the concept of entropy production in this context. Why is it non-zero when there's a heat flow? How does it relate to the Second Law of Thermodynamics in an open system?
-    5.  **Emergent Structure (${data.systemState} state):** Describe what the current system state means. If it's a "Steady State," explain that this is a stable, organized state maintained by constant energy flow, unlike the disorganized state of thermal equilibrium.
+    5.  **Emergent Structure (${data.systemState} state):** Describe what the current system state means. If it's a "Steady State," explain that this is a stable, organized state maintained by constant energy flow, unlike the disorganized state of thermal equilibrium. If it's "Relaxing," explain that the system is still in a transient approaching a new stationary state.
     
     Structure your answer in a readable format. Be concise but informative.
     `;
@@ -0,0 +1,51 @@
+import type { GrayImage } from '../types';
+
+// Uploaded images are downscaled to this before conversion; fields are no larger.
+const MAX_IMAGE_SIZE = 512;
+
+// Reads a canvas's luminance, flipping rows so row 0 is the bottom as in texture data.
+function canvasToGrayImage(context: CanvasRenderingContext2D, width: number, height: number): GrayImage {
+  const { data } = context.getImageData(0, 0, width, height);
+  const values = new Float32Array(width * height);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = ((height - 1 - y) * width + x) * 4;
+      const luminance = (0.2126 * data[i] + 0.7152 * data[i + 1] + 0.0722 * data[i + 2]) / 255;
+      values[y * width + x] = luminance * (data[i + 3] / 255);
+    }
+  }
+  return { width, height, values };
+}
+
+// White text on black, scaled to fill most of the width of a square canvas.
+export function rasterizeText(text: string, size: number): GrayImage {
+  const canvas = document.createElement('canvas');
+  canvas.width = size;
+  canvas.height = size;
+  const context = canvas.getContext('2d')!;
+  context.fillStyle = 'black';
+  context.fillRect(0, 0, size, size);
+  context.fillStyle = 'white';
+  context.textAlign = 'center';
+  context.textBaseline = 'middle';
+  context.font = `bold ${size / 4}px sans-serif`;
+  const width = context.measureText(text).width;
+  const fontSize = Math.min(size / 4, (size / 4) * (0.9 * size) / Math.max(1, width));
+  context.font = `bold ${fontSize}px sans-serif`;
+  context.fillText(text, size / 2, size / 2);
+  return canvasToGrayImage(context, size, size);
+}
+
+export async function loadGrayImage(file: File): Promise<GrayImage> {
+  const bitmap = await createImageBitmap(file);
+  const scale = Math.min(1, MAX_IMAGE_SIZE / Math.max(bitmap.width, bitmap.height));
+  const width = Math.max(1, Math.round(bitmap.width * scale));
+  const height = Math.max(1, Math.round(bitmap.height * scale));
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const context = canvas.getContext('2d')!;
+  context.drawImage(bitmap, 0, 0, width, height);
+  bitmap.close();
+  return canvasToGrayImage(context, width, height);
+}
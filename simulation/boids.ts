@@ -0,0 +1,697 @@
+import type { BoidsBenchmarkResult, BoidsBoundary, BoidsObstacle, BoidsParams, FlockingRules } from '../types';
+import { avoidObstacle, pushOutOfObstacle } from './boidsObstacles';
+import { MAX_SPECIES, NEUTRAL_INTERACTION, newSpecies } from './boidsSpecies';
+import { SeededRandom } from './random';
+
+export const BOIDS_BOUNDS = 25; // Edge of the cube the flock flies in
+
+export const DEFAULT_FLOCKING_RULES: FlockingRules = {
+  minSpeed: 0,
+  maxSpeed: 0.25,
+  maxForce: 0.01,
+  cohesionWeight: 1.0,
+  alignmentWeight: 1.2,
+  separationWeight: 1.5,
+  perceptionRadius: 3,
+  separationDistance: 1.0,
+  predatorWeight: 2.5,
+  predatorRadius: 5,
+};
+
+export const DEFAULT_BOIDS_PARAMS: BoidsParams = {
+  count: 2000,
+  ...DEFAULT_FLOCKING_RULES,
+  model: 'reynolds',
+  noise: 0.2,
+  species: [newSpecies(0)],
+  interactions: [[NEUTRAL_INTERACTION]],
+  boundary: 'periodic',
+  obstacles: [],
+  avoidanceWeight: 3,
+  lookAhead: 3,
+  predatorMode: 'mouse',
+  predatorCount: 6,
+  predatorTargeting: 'nearest',
+  predatorSpeed: 0.35,
+  confusion: 0.3,
+  predatorStarvation: 150,
+  predatorBirthMeals: 8,
+  reproductionRate: 0.003,
+};
+
+// Predator k sits at entries 3k to 3k + 2 of `positions`.
+export interface Threats {
+  readonly positions: Float32Array;
+  readonly count: number;
+}
+
+// The living boids' state, copied so it can be analysed while the flock flies on.
+export interface FlockSnapshot {
+  params: BoidsParams;
+  steps: number;
+  positions: Float32Array;
+  velocities: Float32Array;
+  species: Uint8Array;
+}
+
+// Grid cells per perception radius. Finer cells fit the searched block more
+// closely to the perception sphere, so fewer candidates are rejected.
+const CELLS_PER_RADIUS = 2;
+const MAX_CELLS_PER_AXIS = 32; // Caps the grid for tiny perception radii
+// Beyond this the searched block of cells would wrap onto itself.
+export const MAX_PERCEPTION_RADIUS = BOIDS_BOUNDS / 3;
+
+export const BENCHMARK_COUNTS = [500, 1000, 2000, 5000, 10000, 20000];
+// Long enough for a scattered start to gather into flocks, which cost
+// about twice as much per step as the uniform scatter.
+const BENCHMARK_WARMUP_STEPS = 150;
+const BIRTH_SPREAD = 0.5; // Newborns appear within this distance of their parent
+
+/**
+ * Reynolds flocking in a cube, with struct-of-arrays
+ * storage: boid i's position and velocity are entries 3i to 3i + 2 of flat
+ * typed arrays. Each step rebuilds a uniform grid by counting sort and
+ * reorders the boids to match, so every cell's boids are one contiguous
+ * range and a neighbour search reads memory in order instead of chasing
+ * indices (SpatialGrid's linked lists scatter those reads, and the cache
+ * misses cost more than the arithmetic at thousands of boids). A step costs
+ * n times the boids in each searched block of cells, so it grows with the
+ * density as well as the count, and allocates nothing. All boids steer from the
+ * same snapshot before any of them moves. Boids can be removed and born up
+ * to the initial count, which is also the carrying capacity. Only a
+ * periodic cube lets flockmates see each other across its faces; other
+ * boundaries and the obstacles are applied by look-ahead steering and by
+ * confine after each move. Each boid belongs to a species with its own speed
+ * and perception; it weighs flockmates of each species by the interaction
+ * matrix before steering on the combined sums. The
+ * Vicsek model replaces all the steering with noisy alignment (see align).
+ */
+export class BoidFlock {
+  readonly capacity: number;
+  private alive: number;
+  private params: BoidsParams;
+  private readonly random: SeededRandom;
+  readonly positions: Float32Array;
+  readonly velocities: Float32Array;
+  readonly species: Uint8Array; // Index into params.species
+  readonly neighbourCounts: Int32Array; // Flockmates each boid saw in the last step
+  private readonly accelerations: Float32Array;
+  private cellsPerAxis = 0;
+  private cellSize = 0;
+  private reach = 0; // Cells searched on each side of a boid's own
+  // Boids in cell c occupy indices cellStarts[c] to cellStarts[c + 1] - 1.
+  private cellStarts = new Int32Array(0);
+  private cursors = new Int32Array(0);
+  private readonly cells: Int32Array;
+  private readonly slots: Int32Array;
+  private readonly scratch: Float32Array;
+  private readonly speciesScratch: Uint8Array;
+  // Per species: speed limits and squared perception radius; per ordered
+  // pair (a, b), entry 3 (a * MAX_SPECIES + b): the factors by which species
+  // a scales the alignment, cohesion and separation contributions of b.
+  private readonly minSpeeds = new Float64Array(MAX_SPECIES);
+  private readonly maxSpeeds = new Float64Array(MAX_SPECIES);
+  private readonly perceptionSq = new Float64Array(MAX_SPECIES);
+  private readonly weights = new Float64Array(3 * MAX_SPECIES * MAX_SPECIES);
+  // Interaction-weighted separation, heading and offset sums of the boid being steered.
+  private readonly sums = new Float64Array(9);
+  private readonly direction = new Float64Array(3); // Avoidance or Vicsek heading of the boid being updated
+  private sorted = false; // Whether cellStarts matches the current positions
+  private stepCount = 0;
+
+  // `params.count` fixes the capacity; later changes to it are ignored.
+  constructor(params: BoidsParams, random = new SeededRandom(1)) {
+    const { count } = params;
+    this.capacity = count;
+    this.alive = count;
+    this.params = { ...params };
+    this.random = random;
+    this.positions = new Float32Array(3 * count);
+    this.velocities = new Float32Array(3 * count);
+    this.accelerations = new Float32Array(3 * count);
+    this.species = new Uint8Array(count);
+    this.neighbourCounts = new Int32Array(count);
+    this.applySpecies();
+    this.sizeGrid();
+    this.cells = new Int32Array(count);
+    this.slots = new Int32Array(count);
+    this.scratch = new Float32Array(3 * count);
+    this.speciesScratch = new Uint8Array(count);
+    this.assignSpecies();
+
+    for (let i = 0; i < count; i++) {
+      const maxSpeed = this.maxSpeeds[this.species[i]];
+      const vx = random.range(-1, 1);
+      const vy = random.range(-1, 1);
+      const vz = random.range(-1, 1);
+      const speed = (random.next() * maxSpeed) / (Math.sqrt(vx * vx + vy * vy + vz * vz) || 1);
+      this.positions[3 * i] = random.range(-0.5, 0.5) * BOIDS_BOUNDS;
+      this.positions[3 * i + 1] = random.range(-0.5, 0.5) * BOIDS_BOUNDS;
+      this.positions[3 * i + 2] = random.range(-0.5, 0.5) * BOIDS_BOUNDS;
+      this.velocities[3 * i] = vx * speed;
+      this.velocities[3 * i + 1] = vy * speed;
+      this.velocities[3 * i + 2] = vz * speed;
+    }
+  }
+
+  // A flock in the state `snapshot` recorded, with no room to grow.
+  static fromSnapshot(snapshot: FlockSnapshot): BoidFlock {
+    const flock = new BoidFlock({ ...snapshot.params, count: snapshot.species.length });
+    flock.positions.set(snapshot.positions);
+    flock.velocities.set(snapshot.velocities);
+    flock.species.set(snapshot.species);
+    flock.stepCount = snapshot.steps;
+    return flock;
+  }
+
+  snapshot(): FlockSnapshot {
+    const { count } = this;
+    return {
+      params: this.params,
+      steps: this.stepCount,
+      positions: this.positions.slice(0, 3 * count),
+      velocities: this.velocities.slice(0, 3 * count),
+      species: this.species.slice(0, count),
+    };
+  }
+
+  get count(): number {
+    return this.alive;
+  }
+
+  get steps(): number {
+    return this.stepCount;
+  }
+
+  get speciesCount(): number {
+    return Math.min(MAX_SPECIES, this.params.species.length);
+  }
+
+  // The largest perception radius of any species.
+  get perceptionRadius(): number {
+    if (this.params.model === 'vicsek') return Math.min(MAX_PERCEPTION_RADIUS, this.params.perceptionRadius);
+    const scale = Math.max(...this.params.species.map(species => species.perception));
+    return Math.min(MAX_PERCEPTION_RADIUS, this.params.perceptionRadius * scale);
+  }
+
+  setParams(params: Partial<BoidsParams>) {
+    const perceptionRadius = this.perceptionRadius;
+    const shares = this.params.species.map(species => species.share).join();
+    this.params = { ...this.params, ...params, count: this.capacity };
+    this.applySpecies();
+    if (this.params.species.map(species => species.share).join() !== shares) this.assignSpecies();
+    if (this.perceptionRadius !== perceptionRadius) {
+      this.sizeGrid();
+      this.sorted = false;
+    }
+  }
+
+  // `threats` are in the same coordinates as the flock; boids flee each one
+  // within the predator radius, measured across the faces like flockmates.
+  // The Vicsek model ignores threats and steers around nothing, though walls
+  // and obstacles still confine it. Boid indices change every step.
+  step(threats: Threats) {
+    const { count, positions, velocities, accelerations, cellsPerAxis: n, cellStarts } = this;
+    const { species, minSpeeds, maxSpeeds } = this;
+    const { predatorRadius, predatorWeight, boundary, obstacles, model } = this.params;
+    const periodic = boundary === 'periodic';
+    this.sortByCell();
+
+    accelerations.fill(0);
+    for (let cx = 0; cx < n; cx++) {
+      for (let cy = 0; cy < n; cy++) {
+        for (let cz = 0; cz < n; cz++) {
+          const cell = (cx * n + cy) * n + cz;
+          for (let i = cellStarts[cell]; i < cellStarts[cell + 1]; i++) {
+            if (model === 'vicsek') this.align(i, cx, cy, cz);
+            else this.flock(i, cx, cy, cz);
+          }
+        }
+      }
+    }
+
+    if (model === 'reynolds') {
+      for (let i = 0; i < count; i++) {
+        for (let k = 0; k < threats.count; k++) {
+          const fleeX = wrapOffset(positions[3 * i] - threats.positions[3 * k], periodic);
+          const fleeY = wrapOffset(positions[3 * i + 1] - threats.positions[3 * k + 1], periodic);
+          const fleeZ = wrapOffset(positions[3 * i + 2] - threats.positions[3 * k + 2], periodic);
+          if (fleeX * fleeX + fleeY * fleeY + fleeZ * fleeZ < predatorRadius * predatorRadius) {
+            this.steer(i, fleeX, fleeY, fleeZ, predatorWeight);
+          }
+        }
+      }
+
+      if (boundary === 'steer' || obstacles.length > 0) {
+        for (let i = 0; i < count; i++) this.avoid(i);
+      }
+    }
+
+    for (let k = 0; k < 3 * count; k += 3) {
+      let vx = velocities[k] + accelerations[k];
+      let vy = velocities[k + 1] + accelerations[k + 1];
+      let vz = velocities[k + 2] + accelerations[k + 2];
+      const speed = Math.sqrt(vx * vx + vy * vy + vz * vz);
+      const clamped = Math.min(maxSpeeds[species[k / 3]], Math.max(minSpeeds[species[k / 3]], speed));
+      if (speed > 0 && clamped !== speed) {
+        vx *= clamped / speed;
+        vy *= clamped / speed;
+        vz *= clamped / speed;
+      }
+      velocities[k] = vx;
+      velocities[k + 1] = vy;
+      velocities[k + 2] = vz;
+      positions[k] += vx;
+      positions[k + 1] += vy;
+      positions[k + 2] += vz;
+      confine(positions, velocities, k / 3, boundary, obstacles);
+    }
+    this.sorted = false;
+    this.stepCount++;
+  }
+
+  // Removes boid i by moving the last boid into its slot, so remove several
+  // in descending index order.
+  remove(i: number) {
+    const last = --this.alive;
+    for (let c = 0; c < 3; c++) {
+      this.positions[3 * i + c] = this.positions[3 * last + c];
+      this.velocities[3 * i + c] = this.velocities[3 * last + c];
+    }
+    this.species[i] = this.species[last];
+    this.neighbourCounts[i] = this.neighbourCounts[last];
+    this.sorted = false;
+  }
+
+  /**
+   * Logistic growth: r n (1 - n / capacity) births this step on average, with
+   * r the reproduction rate, each a copy of a random parent placed beside it.
+   * An extinct flock stays extinct.
+   */
+  reproduce() {
+    const { capacity, random, positions, velocities, species } = this;
+    const expected = this.params.reproductionRate * this.alive * (1 - this.alive / capacity);
+    let births = Math.floor(expected) + (random.next() < expected % 1 ? 1 : 0);
+    while (births-- > 0 && this.alive > 0 && this.alive < capacity) {
+      const parent = Math.floor(random.next() * this.alive);
+      const child = this.alive++;
+      for (let c = 0; c < 3; c++) {
+        positions[3 * child + c] = positions[3 * parent + c] + random.range(-BIRTH_SPREAD, BIRTH_SPREAD);
+        velocities[3 * child + c] = velocities[3 * parent + c];
+      }
+      confine(positions, velocities, child, this.params.boundary, this.params.obstacles);
+      species[child] = species[parent];
+      this.neighbourCounts[child] = this.neighbourCounts[parent];
+      this.sorted = false;
+    }
+  }
+
+  /**
+   * Calls `visit` with every other boid within the perception radius of boid
+   * i and its offset from i, the minimum image in a periodic cube. Call
+   * sortByCell first: this sorts
+   * the flock itself if it has moved, which changes the indices.
+   */
+  forEachNeighbour(i: number, visit: (j: number, dx: number, dy: number, dz: number, distSq: number) => void) {
+    this.sortByCell();
+    const { positions, cellStarts, cellsPerAxis: n, reach } = this;
+    const radiusSq = this.perceptionRadius ** 2;
+    const periodic = this.params.boundary === 'periodic';
+    const x = positions[3 * i];
+    const y = positions[3 * i + 1];
+    const z = positions[3 * i + 2];
+    const cx = this.axisCell(x);
+    const cy = this.axisCell(y);
+    const cz = this.axisCell(z);
+    for (let ix = cx - reach; ix <= cx + reach; ix++) {
+      if (!periodic && (ix < 0 || ix >= n)) continue;
+      const shiftX = ix < 0 ? -BOIDS_BOUNDS : ix >= n ? BOIDS_BOUNDS : 0;
+      for (let iy = cy - reach; iy <= cy + reach; iy++) {
+        if (!periodic && (iy < 0 || iy >= n)) continue;
+        const shiftY = iy < 0 ? -BOIDS_BOUNDS : iy >= n ? BOIDS_BOUNDS : 0;
+        for (let iz = cz - reach; iz <= cz + reach; iz++) {
+          if (!periodic && (iz < 0 || iz >= n)) continue;
+          const shiftZ = iz < 0 ? -BOIDS_BOUNDS : iz >= n ? BOIDS_BOUNDS : 0;
+          const cell = (((ix + n) % n) * n + ((iy + n) % n)) * n + ((iz + n) % n);
+          for (let j = cellStarts[cell]; j < cellStarts[cell + 1]; j++) {
+            if (j === i) continue;
+            const dx = positions[3 * j] + shiftX - x;
+            const dy = positions[3 * j + 1] + shiftY - y;
+            const dz = positions[3 * j + 2] + shiftZ - z;
+            const distSq = dx * dx + dy * dy + dz * dz;
+            if (distSq < radiusSq) visit(j, dx, dy, dz, distSq);
+          }
+        }
+      }
+    }
+  }
+
+  // Per-species speed limits, perception and interaction factors from the
+  // params, clamped to the species the flock supports. The Vicsek model has
+  // one speed v₀ and one radius r, so there every species gets the base ones.
+  private applySpecies() {
+    const { species, interactions, minSpeed, maxSpeed, perceptionRadius, model } = this.params;
+    const vicsek = model === 'vicsek';
+    for (let a = 0; a < this.speciesCount; a++) {
+      const speed = vicsek ? 1 : species[a].speed;
+      const perception = vicsek ? 1 : species[a].perception;
+      this.maxSpeeds[a] = maxSpeed * speed;
+      this.minSpeeds[a] = Math.min(minSpeed, maxSpeed) * speed;
+      this.perceptionSq[a] = Math.min(MAX_PERCEPTION_RADIUS, perceptionRadius * perception) ** 2;
+      for (let b = 0; b < this.speciesCount; b++) {
+        const interaction = interactions[a]?.[b] ?? NEUTRAL_INTERACTION;
+        const w = 3 * (a * MAX_SPECIES + b);
+        this.weights[w] = interaction.alignment;
+        this.weights[w + 1] = interaction.cohesion;
+        this.weights[w + 2] = interaction.separation;
+      }
+    }
+  }
+
+  // Gives every boid a species at random, in proportion to the shares.
+  private assignSpecies() {
+    const species = this.params.species.slice(0, MAX_SPECIES);
+    const total = species.reduce((sum, { share }) => sum + share, 0);
+    for (let i = 0; i < this.alive; i++) {
+      let pick = this.random.next() * total;
+      let a = 0;
+      while (a < species.length - 1 && pick >= species[a].share) pick -= species[a++].share;
+      this.species[i] = a;
+    }
+  }
+
+  // Cells at least half the largest perception radius across, so the search
+  // never reaches more than two cells to each side.
+  private sizeGrid() {
+    const radius = this.perceptionRadius;
+    this.cellsPerAxis = Math.max(1, Math.min(MAX_CELLS_PER_AXIS, Math.floor((BOIDS_BOUNDS * CELLS_PER_RADIUS) / radius)));
+    this.cellSize = BOIDS_BOUNDS / this.cellsPerAxis;
+    this.reach = Math.ceil(radius / this.cellSize);
+    this.cellStarts = new Int32Array(this.cellsPerAxis ** 3 + 1);
+    this.cursors = new Int32Array(this.cellsPerAxis ** 3);
+  }
+
+  private axisCell(value: number): number {
+    return Math.min(this.cellsPerAxis - 1, Math.floor((value + BOIDS_BOUNDS / 2) / this.cellSize));
+  }
+
+  // Counting sort of the boids by grid cell, filling cellStarts; does nothing
+  // if they have not moved since the last sort.
+  sortByCell() {
+    if (this.sorted) return;
+    const { count, positions, velocities, cellStarts, cursors, cells, slots } = this;
+    const n = this.cellsPerAxis;
+    cellStarts.fill(0);
+    for (let i = 0; i < count; i++) {
+      const x = this.axisCell(positions[3 * i]);
+      const y = this.axisCell(positions[3 * i + 1]);
+      const z = this.axisCell(positions[3 * i + 2]);
+      cells[i] = (x * n + y) * n + z;
+      cellStarts[cells[i] + 1]++;
+    }
+    for (let c = 1; c < cellStarts.length; c++) cellStarts[c] += cellStarts[c - 1];
+    cursors.set(cellStarts.subarray(0, cursors.length));
+    for (let i = 0; i < count; i++) slots[i] = cursors[cells[i]]++;
+
+    this.permute(positions, 3, this.scratch);
+    this.permute(velocities, 3, this.scratch);
+    this.permute(this.species, 1, this.speciesScratch);
+    this.sorted = true;
+  }
+
+  // Moves each boid's `width` entries of `field` to its sorted slot.
+  private permute<T extends Float32Array | Uint8Array>(field: T, width: number, scratch: T) {
+    const { count, slots } = this;
+    for (let i = 0; i < count; i++) {
+      for (let c = 0; c < width; c++) scratch[width * slots[i] + c] = field[width * i + c];
+    }
+    field.set(scratch.subarray(0, width * count));
+  }
+
+  // Separation, alignment and cohesion for boid i in cell (cx, cy, cz). Each
+  // flockmate's contribution to a rule is scaled by the interaction factor
+  // for its species, and each rule steers once on the combined sum, so
+  // neutral species flock exactly like one. In a periodic cube, cells past a
+  // face are read from the opposite side, shifted by the cube edge, so
+  // neighbours across it count as if the cube were tiled; otherwise there
+  // are none.
+  private flock(i: number, cx: number, cy: number, cz: number) {
+    const { positions, velocities, species, cellStarts, cellsPerAxis: n, reach, sums, weights } = this;
+    const { separationDistance, alignmentWeight, cohesionWeight, separationWeight } = this.params;
+    const periodic = this.params.boundary === 'periodic';
+    const own = 3 * MAX_SPECIES * species[i];
+    const radiusSq = this.perceptionSq[species[i]];
+    const x = positions[3 * i];
+    const y = positions[3 * i + 1];
+    const z = positions[3 * i + 2];
+    let neighbours = 0;
+    sums.fill(0);
+
+    for (let ix = cx - reach; ix <= cx + reach; ix++) {
+      if (!periodic && (ix < 0 || ix >= n)) continue;
+      const shiftX = ix < 0 ? -BOIDS_BOUNDS : ix >= n ? BOIDS_BOUNDS : 0;
+      for (let iy = cy - reach; iy <= cy + reach; iy++) {
+        if (!periodic && (iy < 0 || iy >= n)) continue;
+        const shiftY = iy < 0 ? -BOIDS_BOUNDS : iy >= n ? BOIDS_BOUNDS : 0;
+        for (let iz = cz - reach; iz <= cz + reach; iz++) {
+          if (!periodic && (iz < 0 || iz >= n)) continue;
+          const shiftZ = iz < 0 ? -BOIDS_BOUNDS : iz >= n ? BOIDS_BOUNDS : 0;
+          const cell = (((ix + n) % n) * n + ((iy + n) % n)) * n + ((iz + n) % n);
+          for (let j = cellStarts[cell]; j < cellStarts[cell + 1]; j++) {
+            const dx = positions[3 * j] + shiftX - x;
+            const dy = positions[3 * j + 1] + shiftY - y;
+            const dz = positions[3 * j + 2] + shiftZ - z;
+            const distSq = dx * dx + dy * dy + dz * dz;
+            if (distSq === 0 || distSq >= radiusSq) continue;
+            const w = own + 3 * species[j];
+            // Push away along the offset, weighted by 1 / distance.
+            if (distSq < separationDistance * separationDistance) {
+              const push = weights[w + 2] / distSq;
+              sums[0] -= dx * push;
+              sums[1] -= dy * push;
+              sums[2] -= dz * push;
+            }
+            sums[3] += velocities[3 * j] * weights[w];
+            sums[4] += velocities[3 * j + 1] * weights[w];
+            sums[5] += velocities[3 * j + 2] * weights[w];
+            sums[6] += dx * weights[w + 1];
+            sums[7] += dy * weights[w + 1];
+            sums[8] += dz * weights[w + 1];
+            neighbours++;
+          }
+        }
+      }
+    }
+
+    this.neighbourCounts[i] = neighbours;
+    this.steer(i, sums[3], sums[4], sums[5], alignmentWeight);
+    this.steer(i, sums[6], sums[7], sums[8], cohesionWeight);
+    this.steer(i, sums[0], sums[1], sums[2], separationWeight);
+  }
+
+  // Vicsek update for boid i in cell (cx, cy, cz): the mean heading of the
+  // boids within its perception radius, itself included, turned at random by
+  // up to noise × π and taken at its species' full speed. Stored as the
+  // change from the current velocity, so step integrates it like a force.
+  private align(i: number, cx: number, cy: number, cz: number) {
+    const { positions, velocities, species, cellStarts, cellsPerAxis: n, reach, accelerations, direction: heading } = this;
+    const periodic = this.params.boundary === 'periodic';
+    const radiusSq = this.perceptionSq[species[i]];
+    const speed = this.maxSpeeds[species[i]];
+    const x = positions[3 * i];
+    const y = positions[3 * i + 1];
+    const z = positions[3 * i + 2];
+    let neighbours = 0;
+    let headingX = 0, headingY = 0, headingZ = 0;
+
+    for (let ix = cx - reach; ix <= cx + reach; ix++) {
+      if (!periodic && (ix < 0 || ix >= n)) continue;
+      const shiftX = ix < 0 ? -BOIDS_BOUNDS : ix >= n ? BOIDS_BOUNDS : 0;
+      for (let iy = cy - reach; iy <= cy + reach; iy++) {
+        if (!periodic && (iy < 0 || iy >= n)) continue;
+        const shiftY = iy < 0 ? -BOIDS_BOUNDS : iy >= n ? BOIDS_BOUNDS : 0;
+        for (let iz = cz - reach; iz <= cz + reach; iz++) {
+          if (!periodic && (iz < 0 || iz >= n)) continue;
+          const shiftZ = iz < 0 ? -BOIDS_BOUNDS : iz >= n ? BOIDS_BOUNDS : 0;
+          const cell = (((ix + n) % n) * n + ((iy + n) % n)) * n + ((iz + n) % n);
+          for (let j = cellStarts[cell]; j < cellStarts[cell + 1]; j++) {
+            const dx = positions[3 * j] + shiftX - x;
+            const dy = positions[3 * j + 1] + shiftY - y;
+            const dz = positions[3 * j + 2] + shiftZ - z;
+            if (dx * dx + dy * dy + dz * dz >= radiusSq) continue;
+            // Unit headings, so every neighbour counts equally.
+            const vx = velocities[3 * j];
+            const vy = velocities[3 * j + 1];
+            const vz = velocities[3 * j + 2];
+            const length = Math.sqrt(vx * vx + vy * vy + vz * vz);
+            if (length === 0) continue;
+            headingX += vx / length;
+            headingY += vy / length;
+            headingZ += vz / length;
+            if (j !== i) neighbours++;
+          }
+        }
+      }
+    }
+
+    this.neighbourCounts[i] = neighbours;
+    const length = Math.sqrt(headingX * headingX + headingY * headingY + headingZ * headingZ);
+    if (length > 0) {
+      heading[0] = headingX / length;
+      heading[1] = headingY / length;
+      heading[2] = headingZ / length;
+    } else {
+      // The headings cancel, or the boid has stopped: any direction will do.
+      randomDirection(this.random, heading);
+    }
+    turnAtRandom(this.random, heading, this.params.noise * Math.PI);
+    for (let c = 0; c < 3; c++) accelerations[3 * i + c] = heading[c] * speed - velocities[3 * i + c];
+  }
+
+  // Steers boid i away from the obstacles in its path and, with the 'steer'
+  // boundary, from any face its look-ahead point has crossed.
+  private avoid(i: number) {
+    const { positions, velocities, direction: away } = this;
+    const { boundary, obstacles, lookAhead, avoidanceWeight } = this.params;
+    const vx = velocities[3 * i];
+    const vy = velocities[3 * i + 1];
+    const vz = velocities[3 * i + 2];
+    const speed = Math.sqrt(vx * vx + vy * vy + vz * vz);
+    if (speed === 0) return;
+    const half = BOIDS_BOUNDS / 2;
+    away.fill(0);
+    if (boundary === 'steer') {
+      for (let axis = 0; axis < 3; axis++) {
+        const ahead = positions[3 * i + axis] + (velocities[3 * i + axis] / speed) * lookAhead;
+        if (ahead > half) away[axis] -= 1;
+        else if (ahead < -half) away[axis] += 1;
+      }
+    }
+    for (const obstacle of obstacles) {
+      avoidObstacle(obstacle, positions[3 * i], positions[3 * i + 1], positions[3 * i + 2], vx / speed, vy / speed, vz / speed, lookAhead, away);
+    }
+    this.steer(i, away[0], away[1], away[2], avoidanceWeight);
+  }
+
+  // Adds a force turning boid i towards (dx, dy, dz) at its species' full
+  // speed, limited to the maximum force before weighting. A negative weight
+  // turns it away instead; a zero direction adds nothing.
+  private steer(i: number, dx: number, dy: number, dz: number, weight: number) {
+    const { velocities, accelerations } = this;
+    const { maxForce } = this.params;
+    const maxSpeed = this.maxSpeeds[this.species[i]];
+    const length = Math.sqrt(dx * dx + dy * dy + dz * dz);
+    if (length === 0 || weight === 0) return;
+    if (weight < 0) {
+      dx = -dx;
+      dy = -dy;
+      dz = -dz;
+      weight = -weight;
+    }
+    let sx = (dx * maxSpeed) / length - velocities[3 * i];
+    let sy = (dy * maxSpeed) / length - velocities[3 * i + 1];
+    let sz = (dz * maxSpeed) / length - velocities[3 * i + 2];
+    const force = Math.sqrt(sx * sx + sy * sy + sz * sz);
+    if (force > maxForce) {
+      sx *= maxForce / force;
+      sy *= maxForce / force;
+      sz *= maxForce / force;
+    }
+    accelerations[3 * i] += sx * weight;
+    accelerations[3 * i + 1] += sy * weight;
+    accelerations[3 * i + 2] += sz * weight;
+  }
+}
+
+// A unit vector drawn uniformly from the sphere, written to `out`.
+function randomDirection(random: SeededRandom, out: Float64Array) {
+  const cosTheta = random.range(-1, 1);
+  const sinTheta = Math.sqrt(1 - cosTheta * cosTheta);
+  const phi = random.range(0, 2 * Math.PI);
+  out[0] = sinTheta * Math.cos(phi);
+  out[1] = sinTheta * Math.sin(phi);
+  out[2] = cosTheta;
+}
+
+// Replaces the unit vector `u` with one drawn uniformly from the cone of
+// half-angle `maxAngle` around it (the whole sphere at π).
+function turnAtRandom(random: SeededRandom, u: Float64Array, maxAngle: number) {
+  if (maxAngle <= 0) return;
+  const cosTheta = random.range(Math.cos(Math.min(Math.PI, maxAngle)), 1);
+  const sinTheta = Math.sqrt(1 - cosTheta * cosTheta);
+  const phi = random.range(0, 2 * Math.PI);
+  // An orthonormal pair (a, b) perpendicular to u, from whichever axis is least aligned with it.
+  const [ux, uy, uz] = u;
+  let ax: number, ay: number, az: number;
+  if (Math.abs(ux) < 0.9) {
+    ax = 0; ay = uz; az = -uy; // u × x̂
+  } else {
+    ax = -uz; ay = 0; az = ux; // u × ŷ
+  }
+  const aLength = Math.sqrt(ax * ax + ay * ay + az * az);
+  ax /= aLength;
+  ay /= aLength;
+  az /= aLength;
+  const bx = uy * az - uz * ay;
+  const by = uz * ax - ux * az;
+  const bz = ux * ay - uy * ax;
+  const cos = Math.cos(phi) * sinTheta;
+  const sin = Math.sin(phi) * sinTheta;
+  u[0] = ux * cosTheta + ax * cos + bx * sin;
+  u[1] = uy * cosTheta + ay * cos + by * sin;
+  u[2] = uz * cosTheta + az * cos + bz * sin;
+}
+
+// An offset along one axis of the cube, in minimum-image form when it wraps.
+export function wrapOffset(d: number, periodic = true): number {
+  if (!periodic) return d;
+  const half = BOIDS_BOUNDS / 2;
+  return d > half ? d - BOIDS_BOUNDS : d < -half ? d + BOIDS_BOUNDS : d;
+}
+
+/**
+ * Keeps body i (entries 3i to 3i + 2 of `positions` and `velocities`) in the
+ * cube after a move: a periodic cube wraps it to the opposite face, any
+ * other boundary reflects it off the face it crossed. Then pushes it out of
+ * any obstacle it has entered.
+ */
+export function confine(positions: Float32Array, velocities: Float32Array, i: number, boundary: BoidsBoundary, obstacles: BoidsObstacle[]) {
+  const half = BOIDS_BOUNDS / 2;
+  for (let k = 3 * i; k < 3 * i + 3; k++) {
+    const p = positions[k];
+    if (boundary === 'periodic') {
+      if (p > half) positions[k] = p - BOIDS_BOUNDS;
+      else if (p < -half) positions[k] = p + BOIDS_BOUNDS;
+    } else if (p > half) {
+      positions[k] = BOIDS_BOUNDS - p;
+      velocities[k] = -Math.abs(velocities[k]);
+    } else if (p < -half) {
+      positions[k] = -BOIDS_BOUNDS - p;
+      velocities[k] = Math.abs(velocities[k]);
+    }
+  }
+  for (const obstacle of obstacles) pushOutOfObstacle(obstacle, positions, velocities, i);
+}
+
+/**
+ * Mean step time of a flock with `params` at each count, with one predator
+ * parked at the centre, timed once a fresh flock has had
+ * BENCHMARK_WARMUP_STEPS to gather. Yields to the browser between steps,
+ * which the timings leave out, so the page keeps drawing.
+ */
+export async function benchmarkBoids(params = DEFAULT_BOIDS_PARAMS, counts = BENCHMARK_COUNTS, steps = 30): Promise<BoidsBenchmarkResult[]> {
+  const predator: Threats = { positions: new Float32Array(3), count: 1 };
+  const results: BoidsBenchmarkResult[] = [];
+  for (const count of counts) {
+    const flock = new BoidFlock({ ...params, count });
+    let elapsed = 0;
+    for (let i = 0; i < BENCHMARK_WARMUP_STEPS + steps; i++) {
+      await new Promise(resolve => setTimeout(resolve, 0));
+      const start = performance.now();
+      flock.step(predator);
+      if (i >= BENCHMARK_WARMUP_STEPS) elapsed += performance.now() - start;
+    }
+    results.push({ count, stepMilliseconds: elapsed / steps });
+  }
+  return results;
+}
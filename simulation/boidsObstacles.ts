@@ -0,0 +1,91 @@
+import type { BoidsObstacle, BoidsObstacleKind } from '../types';
+
+export const MAX_BOIDS_OBSTACLES = 8;
+const CLEARANCE = 0.5; // Look-ahead paths closer than this to a surface count as blocked
+
+// Where the UI places a new obstacle of each kind, ready to be moved.
+export const NEW_BOIDS_OBSTACLES: Record<BoidsObstacleKind, BoidsObstacle> = {
+  sphere: { kind: 'sphere', position: [0, 0, 0], radius: 3 },
+  column: { kind: 'column', position: [0, 0, 0], radius: 1.5 },
+  ground: { kind: 'ground', position: [0, -8, 0], radius: 0 },
+};
+
+/**
+ * Look-ahead avoidance: if the segment `lookAhead` long from (x, y, z) along
+ * the unit heading (ux, uy, uz) passes within CLEARANCE of the obstacle's
+ * surface, adds to `away` the unit direction from the obstacle to the
+ * closest point of that segment (straight up for the ground plane) and
+ * returns true.
+ */
+export function avoidObstacle(
+  obstacle: BoidsObstacle,
+  x: number, y: number, z: number,
+  ux: number, uy: number, uz: number,
+  lookAhead: number,
+  away: Float64Array,
+): boolean {
+  const [cx, cy, cz] = obstacle.position;
+  if (obstacle.kind === 'ground') {
+    if (Math.min(y, y + uy * lookAhead) >= cy + CLEARANCE) return false;
+    away[1] += 1;
+    return true;
+  }
+
+  // A column is a sphere in the horizontal plane, unbounded vertically, so
+  // its closest approach depends only on the horizontal part of the heading
+  // (none when flying straight up or down).
+  const vertical = obstacle.kind === 'sphere' ? 1 : 0;
+  const speedSq = vertical ? 1 : ux * ux + uz * uz;
+  const along = speedSq > 0 ? ((cx - x) * ux + (cy - y) * uy * vertical + (cz - z) * uz) / speedSq : 0;
+  const t = Math.min(lookAhead, Math.max(0, along));
+  let dx = x + ux * t - cx;
+  let dy = (y + uy * t - cy) * vertical;
+  let dz = z + uz * t - cz;
+  let distSq = dx * dx + dy * dy + dz * dz;
+  const reach = obstacle.radius + CLEARANCE;
+  if (distSq >= reach * reach) return false;
+  if (distSq === 0) {
+    // Heading straight at the centre: turn away from where the body is.
+    dx = x - cx;
+    dy = (y - cy) * vertical;
+    dz = z - cz;
+    distSq = dx * dx + dy * dy + dz * dz;
+    if (distSq === 0) return false;
+  }
+  const distance = Math.sqrt(distSq);
+  away[0] += dx / distance;
+  away[1] += dy / distance;
+  away[2] += dz / distance;
+  return true;
+}
+
+// Moves body i (entries 3i to 3i + 2) out to the surface of `obstacle` if it
+// is inside, and removes the part of its velocity heading further in.
+export function pushOutOfObstacle(obstacle: BoidsObstacle, positions: Float32Array, velocities: Float32Array, i: number) {
+  const [cx, cy, cz] = obstacle.position;
+  if (obstacle.kind === 'ground') {
+    if (positions[3 * i + 1] >= cy) return;
+    positions[3 * i + 1] = cy;
+    velocities[3 * i + 1] = Math.max(0, velocities[3 * i + 1]);
+    return;
+  }
+
+  const vertical = obstacle.kind === 'sphere' ? 1 : 0;
+  const dx = positions[3 * i] - cx;
+  const dy = (positions[3 * i + 1] - cy) * vertical;
+  const dz = positions[3 * i + 2] - cz;
+  const distance = Math.sqrt(dx * dx + dy * dy + dz * dz);
+  if (distance >= obstacle.radius || distance === 0) return;
+  const nx = dx / distance;
+  const ny = dy / distance;
+  const nz = dz / distance;
+  positions[3 * i] = cx + nx * obstacle.radius;
+  if (vertical) positions[3 * i + 1] = cy + ny * obstacle.radius;
+  positions[3 * i + 2] = cz + nz * obstacle.radius;
+  const inward = velocities[3 * i] * nx + velocities[3 * i + 1] * ny + velocities[3 * i + 2] * nz;
+  if (inward < 0) {
+    velocities[3 * i] -= inward * nx;
+    velocities[3 * i + 1] -= inward * ny;
+    velocities[3 * i + 2] -= inward * nz;
+  }
+}
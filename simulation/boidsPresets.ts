@@ -0,0 +1,42 @@
+import type { FlockingRules } from '../types';
+import { DEFAULT_FLOCKING_RULES } from './boids';
+
+// Presets set only the steering rules: choosing one never rebuilds the flock
+// or changes the predators.
+export interface BoidsPreset {
+  id: string;
+  name: string;
+  description: string;
+  params: FlockingRules;
+}
+
+const defaults = DEFAULT_FLOCKING_RULES;
+
+// Regimes of the rule weights. Speeds and forces trade off against each
+// other: a boid turning at its full force circles with radius speed² / force.
+export const BOIDS_PRESETS: BoidsPreset[] = [
+  {
+    id: 'classic',
+    name: 'Classic',
+    description: "Reynolds' three rules in balance: loose, polarised flocks that merge and split.",
+    params: defaults,
+  },
+  {
+    id: 'tight-school',
+    name: 'Tight School',
+    description: 'Strong, short-range alignment and quick turns: dense schools all heading the same way.',
+    params: { ...defaults, maxSpeed: 0.3, maxForce: 0.02, cohesionWeight: 1.2, alignmentWeight: 2.5, separationWeight: 2.0, perceptionRadius: 2.5, separationDistance: 0.8 },
+  },
+  {
+    id: 'murmuration',
+    name: 'Loose Murmuration',
+    description: 'Wide perception, generous spacing and slow turns: a sparse flock sweeping through the space in broad arcs.',
+    params: { ...defaults, maxSpeed: 0.35, maxForce: 0.008, cohesionWeight: 0.6, alignmentWeight: 1.0, separationWeight: 2.0, perceptionRadius: 5, separationDistance: 1.8 },
+  },
+  {
+    id: 'milling-torus',
+    name: 'Milling Torus',
+    description: 'Constant speed, strong cohesion and no alignment: boids circle the centre of their group instead of travelling together.',
+    params: { ...defaults, minSpeed: 0.2, maxSpeed: 0.2, maxForce: 0.01, cohesionWeight: 2.0, alignmentWeight: 0, separationWeight: 1.5, perceptionRadius: 5, separationDistance: 0.8 },
+  },
+];
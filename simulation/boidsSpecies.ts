@@ -0,0 +1,64 @@
+import type { BoidSpecies, SpeciesInteraction } from '../types';
+
+export const MAX_SPECIES = 4;
+const SPECIES_COLORS = ['#26b5d9', '#e0892b', '#8fd14f', '#d94fa8'];
+
+// Responds to the other species as to its own.
+export const NEUTRAL_INTERACTION: SpeciesInteraction = { alignment: 1, cohesion: 1, separation: 1 };
+const AVOID: SpeciesInteraction = { alignment: 0, cohesion: -1, separation: 2 };
+const CHASE: SpeciesInteraction = { alignment: 0, cohesion: 3, separation: 0.5 };
+const FLEE: SpeciesInteraction = { alignment: 0, cohesion: -2, separation: 3 };
+
+export const newSpecies = (index: number): BoidSpecies => ({
+  color: SPECIES_COLORS[index % SPECIES_COLORS.length],
+  share: 1,
+  speed: 1,
+  perception: 1,
+});
+
+// Grows or shrinks the species list and the interaction matrix to `count`,
+// keeping existing entries; new pairs respond neutrally.
+export function resizeSpecies(species: BoidSpecies[], interactions: SpeciesInteraction[][], count: number) {
+  return {
+    species: Array.from({ length: count }, (_, a) => species[a] ?? newSpecies(a)),
+    interactions: Array.from({ length: count }, (_, a) =>
+      Array.from({ length: count }, (_, b) => interactions[a]?.[b] ?? NEUTRAL_INTERACTION)),
+  };
+}
+
+export interface SpeciesPreset {
+  id: string;
+  name: string;
+  description: string;
+  interactions: (count: number) => SpeciesInteraction[][]; // For `count` species
+}
+
+// Each species keeps the neutral response to its own kind; the presets set
+// how it responds to the others.
+const matrix = (count: number, between: (a: number, b: number) => SpeciesInteraction) =>
+  Array.from({ length: count }, (_, a) =>
+    Array.from({ length: count }, (_, b) => (a === b ? NEUTRAL_INTERACTION : between(a, b))));
+
+export const SPECIES_PRESETS: SpeciesPreset[] = [
+  {
+    id: 'school',
+    name: 'Mixed School',
+    description: 'Every species treats the others as its own, so they school together.',
+    interactions: count => matrix(count, () => NEUTRAL_INTERACTION),
+  },
+  {
+    id: 'segregate',
+    name: 'Segregate',
+    description: "Species ignore each other's heading and move away from each other's groups, sorting into single-species flocks.",
+    interactions: count => matrix(count, () => AVOID),
+  },
+  {
+    id: 'chase',
+    name: 'Chase',
+    description: 'Each species chases the next and flees the previous one, in a cycle when there are three or more.',
+    interactions: count => {
+      const next = (a: number) => (count > 2 ? (a + 1) % count : a + 1);
+      return matrix(count, (a, b) => (b === next(a) ? CHASE : a === next(b) ? FLEE : NEUTRAL_INTERACTION));
+    },
+  },
+];
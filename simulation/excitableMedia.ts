@@ -0,0 +1,289 @@
+import type { BoundaryCondition, BZModel, BZParams } from '../types';
+import { LAPLACIAN_CORNER_WEIGHT, LAPLACIAN_EDGE_WEIGHT, NEUMANN_BOUNDARY, glslFloat, neighbourTable, stencilSum } from './grayScott';
+import type { Stimulus } from './grayScott';
+
+// The 9-point stencil sum L approximates LAPLACIAN_SCALE * h^2 * ∇² (0.3 h^2 ∇²);
+// its most negative eigenvalue (the checkerboard mode) is -STENCIL_MIN_EIGENVALUE
+// (-1.6), so explicit Euler diffusion is stable for dt <= 0.375 h^2 / D.
+export const LAPLACIAN_SCALE = LAPLACIAN_EDGE_WEIGHT + 2 * LAPLACIAN_CORNER_WEIGHT;
+const STENCIL_MIN_EIGENVALUE = 1 + 4 * LAPLACIAN_EDGE_WEIGHT - 4 * LAPLACIAN_CORNER_WEIGHT;
+
+// Default radius of the disc a click excites, in UV units.
+export const BZ_STIMULUS_RADIUS = 0.02;
+
+// Ratio of rate constants in the Oregonator; rarely varied, so not a live parameter.
+const OREGONATOR_Q = 0.002;
+
+export interface ModelParameter {
+  name: string;
+  label: string;
+  min: number;
+  max: number;
+  step: number;
+}
+
+/**
+ * Two-variable excitable medium: u is the fast excitation, v the slow
+ * recovery variable, and only u diffuses. `reaction` and `reactionGlsl`
+ * must describe the same kinetics, as must `stiffness` and `stiffnessGlsl`;
+ * the GLSL reads the parameters from the components of `uParams` in
+ * `parameters` order.
+ *
+ * `stiffness` splits the u rate into production and loss, f = P - s·u with
+ * P ≥ 0 and s the stiffness. The u update divides its explicit increment by
+ * 1 + dt·s, which takes the loss implicitly (Patankar–Euler): fast decay
+ * cannot overshoot below zero, and only diffusion limits the step. A
+ * stiffness of 0 is plain explicit Euler.
+ */
+export interface ExcitableModel {
+  id: BZModel;
+  name: string;
+  description: string;
+  parameters: [ModelParameter, ModelParameter, ModelParameter];
+  defaults: [number, number, number];
+  diffusion: number; // D for u
+  gridSpacing: number; // h, space units per texel
+  dt: number;
+  stepsPerFrame: number;
+  restGuess: [number, number]; // Starting point for restState()
+  excitedU: number; // u imposed by a stimulus
+  boundsU: [number, number]; // u is clamped to this range after every step
+  refractoryV: number; // v that blocks re-excitation, used by initial conditions
+  displayRange: [number, number]; // u values mapped to the ends of the colour ramp
+  reaction: (u: number, v: number, params: readonly number[]) => [number, number];
+  reactionGlsl: string; // Body of `vec2 reaction(float u, float v)`
+  stiffness: (u: number, v: number, params: readonly number[]) => number;
+  stiffnessGlsl: string; // Body of `float stiffness(float u, float v)`
+}
+
+// Patankar–Euler update of u from its rate (reaction plus diffusion).
+// Equivalent to (u + dt·(P + diffusion)) / (1 + dt·s).
+const stepU = (u: number, rate: number, stiffness: number, dt: number) => u + (rate * dt) / (1 + stiffness * dt);
+
+export const EXCITABLE_MODELS: Record<BZModel, ExcitableModel> = {
+  barkley: {
+    id: 'barkley',
+    name: 'Barkley',
+    description: 'Fast cubic excitation with linear recovery; the standard minimal model for spiral waves.',
+    parameters: [
+      { name: 'a', label: 'a (threshold slope)', min: 0.3, max: 1.0, step: 0.01 },
+      { name: 'b', label: 'b (threshold offset)', min: 0.0, max: 0.2, step: 0.005 },
+      { name: 'epsilon', label: 'ε (time-scale ratio)', min: 0.01, max: 0.08, step: 0.001 },
+    ],
+    defaults: [0.75, 0.02, 0.02],
+    diffusion: 1,
+    gridSpacing: 0.25,
+    dt: 0.015,
+    stepsPerFrame: 12,
+    restGuess: [0, 0],
+    excitedU: 1,
+    boundsU: [0, 1],
+    refractoryV: 1,
+    displayRange: [0, 1],
+    reaction: (u, v, [a, b, epsilon]) => [u * (1 - u) * (u - (v + b) / a) / epsilon, u - v],
+    reactionGlsl: `
+      float threshold = (v + uParams.y) / uParams.x;
+      return vec2(u * (1.0 - u) * (u - threshold) / uParams.z, u - v);
+    `,
+    // Mild enough at the default ε for explicit Euler.
+    stiffness: () => 0,
+    stiffnessGlsl: 'return 0.0;',
+  },
+  oregonator: {
+    id: 'oregonator',
+    name: 'Oregonator',
+    description: 'Tyson–Fife reduction of the Field–Kőrös–Noyes BZ mechanism: u is HBrO₂, v the oxidised catalyst. The bromide term φ keeps the medium excitable rather than oscillatory.',
+    parameters: [
+      { name: 'f', label: 'f (stoichiometry)', min: 0.5, max: 3.0, step: 0.05 },
+      { name: 'phi', label: 'φ (bromide production)', min: 0.0, max: 0.05, step: 0.001 },
+      { name: 'epsilon', label: 'ε (time-scale ratio)', min: 0.02, max: 0.2, step: 0.005 },
+    ],
+    defaults: [1.4, 0.01, 0.05],
+    diffusion: 1,
+    gridSpacing: 0.2,
+    dt: 0.004,
+    stepsPerFrame: 10,
+    restGuess: [0.005, 0.005],
+    excitedU: 0.9,
+    // u is a concentration; the floor guards the pole at u = -q in the inhibition term.
+    boundsU: [0, 1],
+    refractoryV: 0.4,
+    displayRange: [0, 0.8],
+    reaction: (u, v, [f, phi, epsilon]) => [(u - u * u - (f * v + phi) * (u - OREGONATOR_Q) / (u + OREGONATOR_Q)) / epsilon, u - v],
+    reactionGlsl: `
+      const float q = ${glslFloat(OREGONATOR_Q)};
+      float inhibition = (uParams.x * v + uParams.y) * (u - q) / (u + q);
+      return vec2((u - u * u - inhibition) / uParams.z, u - v);
+    `,
+    // The inhibition term removes u at a rate up to (fv + φ) / (q ε),
+    // thousands per time unit near u = 0: far too stiff for an explicit step.
+    // P = (u + (fv + φ) q / (u + q)) / ε, loss (u + (fv + φ) / (u + q)) / ε.
+    stiffness: (u, v, [f, phi, epsilon]) => (u + (f * v + phi) / (u + OREGONATOR_Q)) / epsilon,
+    stiffnessGlsl: `
+      return (u + (uParams.x * v + uParams.y) / (u + ${glslFloat(OREGONATOR_Q)})) / uParams.z;
+    `,
+  },
+  'fitzhugh-nagumo': {
+    id: 'fitzhugh-nagumo',
+    name: 'FitzHugh–Nagumo',
+    description: 'Simplified Hodgkin–Huxley neuron; cubic excitation with slow linear recovery, broad pulses.',
+    parameters: [
+      { name: 'a', label: 'a (recovery offset)', min: 0.0, max: 1.2, step: 0.01 },
+      { name: 'b', label: 'b (recovery damping)', min: 0.1, max: 1.0, step: 0.01 },
+      { name: 'epsilon', label: 'ε (recovery rate)', min: 0.01, max: 0.2, step: 0.005 },
+    ],
+    defaults: [0.7, 0.8, 0.04],
+    diffusion: 1,
+    gridSpacing: 1,
+    dt: 0.1,
+    stepsPerFrame: 8,
+    restGuess: [-1.2, -0.6],
+    excitedU: 2,
+    boundsU: [-3, 3],
+    refractoryV: 1.5,
+    displayRange: [-2, 2],
+    reaction: (u, v, [a, b, epsilon]) => [u - u * u * u / 3 - v, epsilon * (u + a - b * v)],
+    reactionGlsl: `
+      return vec2(u - u * u * u / 3.0 - v, uParams.z * (u + uParams.x - uParams.y * v));
+    `,
+    stiffness: () => 0,
+    stiffnessGlsl: 'return 0.0;',
+  },
+};
+
+// Largest step for which the diffusion of u stays stable. The reaction sets
+// no bound: the stiff loss of u is integrated implicitly (see `stiffness`).
+export const maxStableTimestep = (model: ExcitableModel, diffusion = model.diffusion) =>
+  (2 * LAPLACIAN_SCALE * model.gridSpacing ** 2) / (STENCIL_MIN_EIGENVALUE * diffusion);
+
+export const defaultBZParams = (model: ExcitableModel): BZParams => ({
+  kinetics: [...model.defaults],
+  diffusion: model.diffusion,
+  dt: model.dt,
+  stepsPerFrame: model.stepsPerFrame,
+  stimulusRadius: BZ_STIMULUS_RADIUS,
+  displacementScale: 1.5,
+});
+
+// Homogeneous resting state for the given parameters, found by integrating
+// the kinetics without diffusion. For oscillatory parameters there is no
+// stable rest and this returns wherever the orbit is after the time limit.
+export function restState(model: ExcitableModel, params: readonly number[]): [number, number] {
+  let [u, v] = model.restGuess;
+  for (let i = 0; i < 200_000; i++) {
+    const [du, dv] = model.reaction(u, v, params);
+    u = stepU(u, du, model.stiffness(u, v, params), model.dt);
+    v += dv * model.dt;
+    if (Math.abs(du) + Math.abs(dv) < 1e-9) break;
+  }
+  return [u, v];
+}
+
+// Maps an initial-condition field (GS convention: u = 1 at rest, v marks
+// seeds) onto a model: v becomes excitation, depleted u becomes refractoriness.
+export function toExcitableState(model: ExcitableModel, params: readonly number[], data: Float32Array): Float32Array {
+  const out = new Float32Array(data.length);
+  const [restU, restV] = restState(model, params);
+  for (let i = 0; i < data.length; i += 4) {
+    const excitation = Math.min(1, Math.max(0, data[i + 1]));
+    const refractoriness = Math.min(1, Math.max(0, 1 - data[i]));
+    out[i] = restU + excitation * (model.excitedU - restU);
+    out[i + 1] = restV + refractoriness * (model.refractoryV - restV);
+    out[i + 3] = 1;
+  }
+  return out;
+}
+
+// The subset of BZParams that affects the dynamics.
+export type ExcitableSolverParams = Pick<BZParams, 'kinetics' | 'diffusion' | 'dt'>;
+
+/**
+ * CPU reference for the excitable-medium shader: Euler steps (implicit in
+ * the loss of u where the model is stiff) with the shared 9-point Laplacian,
+ * u diffusing with ∇² ≈ L / (LAPLACIAN_SCALE h²).
+ */
+export class ExcitableMediumSolver {
+  readonly size: number;
+  readonly model: ExcitableModel;
+  private params: ExcitableSolverParams;
+  private u: Float32Array;
+  private v: Float32Array;
+  private nextU: Float32Array;
+  private nextV: Float32Array;
+  private readonly previous: Int32Array;
+  private readonly following: Int32Array;
+  private readonly ghostU: number;
+
+  constructor(
+    size: number,
+    model: ExcitableModel,
+    params: ExcitableSolverParams = defaultBZParams(model),
+    boundary: BoundaryCondition = NEUMANN_BOUNDARY,
+  ) {
+    this.size = size;
+    this.model = model;
+    this.params = { ...params };
+    const cells = size * size;
+    const [restU, restV] = restState(model, params.kinetics);
+    this.u = new Float32Array(cells).fill(restU);
+    this.v = new Float32Array(cells).fill(restV);
+    this.nextU = new Float32Array(cells);
+    this.nextV = new Float32Array(cells);
+    this.previous = neighbourTable(size, -1, boundary.mode);
+    this.following = neighbourTable(size, 1, boundary.mode);
+    this.ghostU = boundary.value[0];
+  }
+
+  get fieldU(): Float32Array {
+    return this.u;
+  }
+
+  get fieldV(): Float32Array {
+    return this.v;
+  }
+
+  setParams(params: Partial<ExcitableSolverParams>) {
+    this.params = { ...this.params, ...params };
+  }
+
+  loadRGBA(data: ArrayLike<number>) {
+    for (let i = 0; i < this.u.length; i++) {
+      this.u[i] = data[i * 4];
+      this.v[i] = data[i * 4 + 1];
+    }
+  }
+
+  run(steps: number, stimulus?: Stimulus) {
+    for (let step = 0; step < steps; step++) this.step(stimulus);
+  }
+
+  step(stimulus?: Stimulus) {
+    const { size, previous, following, ghostU, model, u, v, nextU, nextV } = this;
+    const { kinetics, dt } = this.params;
+    const [minU, maxU] = model.boundsU;
+    const diffusion = this.params.diffusion / (LAPLACIAN_SCALE * model.gridSpacing ** 2);
+    for (let y = 0; y < size; y++) {
+      for (let x = 0; x < size; x++) {
+        const i = y * size + x;
+        const lu = stencilSum(u, size, x, y, previous, following, ghostU);
+        const [du, dv] = model.reaction(u[i], v[i], kinetics);
+        const un = stepU(u[i], diffusion * lu + du, model.stiffness(u[i], v[i], kinetics), dt);
+        nextU[i] = un < minU ? minU : un > maxU ? maxU : un;
+        nextV[i] = v[i] + dv * dt;
+      }
+    }
+    if (stimulus) {
+      for (let j = 0; j < size; j++) {
+        for (let i = 0; i < size; i++) {
+          const dx = (i + 0.5) / size - stimulus.x;
+          const dy = (j + 0.5) / size - stimulus.y;
+          if (dx * dx + dy * dy < stimulus.radius * stimulus.radius) nextU[j * size + i] = model.excitedU;
+        }
+      }
+    }
+    this.u = nextU;
+    this.nextU = u;
+    this.v = nextV;
+    this.nextV = v;
+  }
+}
@@ -0,0 +1,195 @@
+import type { FlockStatistics } from '../types';
+import type { BoidFlock } from './boids';
+
+export const MIN_FLOCK_SIZE = 5; // Smaller proximity clusters count as stragglers
+const NEAREST_NEIGHBOUR_BINS = 20;
+const SLICE_CHECK_VISITS = 16; // Boids searched between checks of the time budget
+
+// Length of the mean unit heading: 1 when all boids fly the same way.
+export function flockPolarization(flock: BoidFlock): number {
+  const { count, velocities } = flock;
+  let headingX = 0;
+  let headingY = 0;
+  let headingZ = 0;
+  for (let i = 0; i < count; i++) {
+    const speed = Math.hypot(velocities[3 * i], velocities[3 * i + 1], velocities[3 * i + 2]);
+    if (speed === 0) continue;
+    headingX += velocities[3 * i] / speed;
+    headingY += velocities[3 * i + 1] / speed;
+    headingZ += velocities[3 * i + 2] / speed;
+  }
+  return count > 0 ? Math.hypot(headingX, headingY, headingZ) / count : 0;
+}
+
+/**
+ * Order parameters of a flock. Flocks are the connected components of the
+ * graph linking boids within perception range of each other, found by
+ * breadth-first search; the search also unwraps each flock across the faces
+ * of a periodic cube, so its centroid and angular momentum are those of the
+ * unbroken group. Milling is the size-weighted mean over flocks of
+ * |Σ (r − c) × v̂| / Σ |r − c|, which is 1 when every boid circles the
+ * centroid and near 0 for translation or disorder. Species mixing compares
+ * the fraction of flockmate pairs that are of different species with the
+ * fraction expected if species were spread at random.
+ *
+ * The search can run in slices (see advance), so the flock must not change
+ * until it has finished; analyse a snapshot of one that keeps flying.
+ */
+export class FlockAnalysis {
+  private readonly flock: BoidFlock;
+  private readonly predatorCount: number;
+  private readonly visited: Uint8Array;
+  private readonly unwrapped: Float64Array;
+  private readonly queue: Int32Array;
+  private readonly nearestSq: Float64Array;
+  private root = 0; // Next boid to start a search from
+  private head = 0;
+  private tail = 0;
+  private first = 0; // Queue index of the current search's root
+  private current = 0; // Boid whose neighbours are being visited
+  private pairs = 0;
+  private mixedPairs = 0;
+  private readonly flockSizes: number[] = [];
+  private millingSum = 0;
+  private flockedBoids = 0;
+  private statistics: FlockStatistics | null = null;
+
+  constructor(flock: BoidFlock, predatorCount = 0) {
+    flock.sortByCell();
+    this.flock = flock;
+    this.predatorCount = predatorCount;
+    this.visited = new Uint8Array(flock.count);
+    this.unwrapped = new Float64Array(3 * flock.count);
+    this.queue = new Int32Array(flock.count);
+    this.nearestSq = new Float64Array(flock.count).fill(Infinity);
+  }
+
+  // Searches for about `milliseconds`; returns the statistics once the
+  // search has finished and null until then.
+  advance(milliseconds = Infinity): FlockStatistics | null {
+    const start = performance.now();
+    const { flock, visited, unwrapped, queue } = this;
+    const { count, positions, velocities } = flock;
+    let visits = 0;
+    while (!this.statistics) {
+      if (this.head < this.tail) {
+        this.current = queue[this.head++];
+        flock.forEachNeighbour(this.current, this.visit);
+        if (++visits % SLICE_CHECK_VISITS === 0 && performance.now() - start >= milliseconds) return null;
+        continue;
+      }
+      // The last search has finished.
+      const size = this.tail - this.first;
+      if (size >= MIN_FLOCK_SIZE) {
+        this.flockSizes.push(size);
+        this.millingSum += size * milling(queue.subarray(this.first, this.tail), unwrapped, velocities);
+        this.flockedBoids += size;
+      }
+      while (this.root < count && visited[this.root]) this.root++;
+      if (this.root === count) {
+        this.statistics = this.summarise();
+        break;
+      }
+      const root = this.root;
+      visited[root] = 1;
+      unwrapped.set(positions.subarray(3 * root, 3 * root + 3), 3 * root);
+      this.first = this.tail;
+      queue[this.tail++] = root;
+    }
+    return this.statistics;
+  }
+
+  private visit = (j: number, dx: number, dy: number, dz: number, distSq: number) => {
+    const { current, nearestSq, visited, unwrapped } = this;
+    const { species } = this.flock;
+    nearestSq[current] = Math.min(nearestSq[current], distSq);
+    this.pairs++;
+    if (species[j] !== species[current]) this.mixedPairs++;
+    if (visited[j]) return;
+    visited[j] = 1;
+    unwrapped[3 * j] = unwrapped[3 * current] + dx;
+    unwrapped[3 * j + 1] = unwrapped[3 * current + 1] + dy;
+    unwrapped[3 * j + 2] = unwrapped[3 * current + 2] + dz;
+    this.queue[this.tail++] = j;
+  };
+
+  private summarise(): FlockStatistics {
+    const { flock, nearestSq, pairs, mixedPairs, flockedBoids } = this;
+    const { count, species } = flock;
+    this.flockSizes.sort((a, b) => b - a);
+
+    const binWidth = flock.perceptionRadius / NEAREST_NEIGHBOUR_BINS;
+    const fractions = new Array<number>(NEAREST_NEIGHBOUR_BINS).fill(0);
+    let nearestSum = 0;
+    let withNeighbour = 0;
+    for (let i = 0; i < count; i++) {
+      if (nearestSq[i] === Infinity) continue;
+      const distance = Math.sqrt(nearestSq[i]);
+      nearestSum += distance;
+      withNeighbour++;
+      fractions[Math.min(NEAREST_NEIGHBOUR_BINS - 1, Math.floor(distance / binWidth))] += 1 / count;
+    }
+
+    const speciesCounts = new Array<number>(flock.speciesCount).fill(0);
+    for (let i = 0; i < count; i++) speciesCounts[species[i]]++;
+    // Chance that two distinct boids drawn at random are of different species.
+    const randomMixed = count > 1 ? 1 - speciesCounts.reduce((sum, n) => sum + n * (n - 1), 0) / (count * (count - 1)) : 0;
+
+    return {
+      time: flock.steps,
+      polarization: flockPolarization(flock),
+      milling: flockedBoids > 0 ? this.millingSum / flockedBoids : 0,
+      meanNearestNeighbour: withNeighbour > 0 ? nearestSum / withNeighbour : null,
+      nearestNeighbour: {
+        binCenters: fractions.map((_, b) => (b + 0.5) * binWidth),
+        fractions,
+      },
+      isolatedFraction: count > 0 ? (count - withNeighbour) / count : 0,
+      flockSizes: this.flockSizes,
+      preyCount: count,
+      speciesCounts,
+      mixing: speciesCounts.length > 1 && pairs > 0 && randomMixed > 0 ? mixedPairs / pairs / randomMixed : null,
+      predatorCount: this.predatorCount,
+    };
+  }
+}
+
+// The whole analysis at once.
+export function analyseFlock(flock: BoidFlock, predatorCount = 0): FlockStatistics {
+  return new FlockAnalysis(flock, predatorCount).advance()!;
+}
+
+// Normalised angular momentum of the boids `members` about their centroid.
+function milling(members: Int32Array, unwrapped: Float64Array, velocities: Float32Array): number {
+  let cx = 0;
+  let cy = 0;
+  let cz = 0;
+  for (const i of members) {
+    cx += unwrapped[3 * i];
+    cy += unwrapped[3 * i + 1];
+    cz += unwrapped[3 * i + 2];
+  }
+  cx /= members.length;
+  cy /= members.length;
+  cz /= members.length;
+
+  let lx = 0;
+  let ly = 0;
+  let lz = 0;
+  let distanceSum = 0;
+  for (const i of members) {
+    const rx = unwrapped[3 * i] - cx;
+    const ry = unwrapped[3 * i + 1] - cy;
+    const rz = unwrapped[3 * i + 2] - cz;
+    const vx = velocities[3 * i];
+    const vy = velocities[3 * i + 1];
+    const vz = velocities[3 * i + 2];
+    const speed = Math.hypot(vx, vy, vz);
+    distanceSum += Math.hypot(rx, ry, rz);
+    if (speed === 0) continue;
+    lx += (ry * vz - rz * vy) / speed;
+    ly += (rz * vx - rx * vz) / speed;
+    lz += (rx * vy - ry * vx) / speed;
+  }
+  return distanceSum > 0 ? Math.hypot(lx, ly, lz) / distanceSum : 0;
+}
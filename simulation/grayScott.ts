@@ -0,0 +1,220 @@
+import type { BoundaryCondition, BoundaryMode, ReactionDiffusionParams } from '../types';
+import { SeededRandom } from './random';
+
+// Constants shared with the GLSL simulation shaders, which interpolate them,
+// so the CPU solver and the GPU passes always run the same scheme.
+export const DIFFUSION_U = 0.16;
+export const DIFFUSION_V = 0.08;
+export const LAPLACIAN_EDGE_WEIGHT = 0.2;
+export const LAPLACIAN_CORNER_WEIGHT = 0.05;
+export const RD_TIMESTEP = 1.0;
+
+// Formats a number as a GLSL float literal (GLSL ES rejects `1` for a float).
+export const glslFloat = (value: number) => (Number.isInteger(value) ? value.toFixed(1) : String(value));
+
+export const NEUMANN_BOUNDARY: BoundaryCondition = { mode: 'neumann', value: [0, 0] };
+
+export const BOUNDARY_MODE_INDEX: Record<BoundaryMode, number> = { periodic: 0, neumann: 1, dirichlet: 2 };
+
+/**
+ * Boundary handling shared by the field shaders, which must declare
+ * `uPixelSize` before it. Ghost cells outside the grid are the wrapped
+ * cell for periodic, the nearest edge cell for Neumann (a mirror image,
+ * so no flux crosses the edge) and `uBoundaryValue` for Dirichlet.
+ * `boundaryUv` maps a neighbour back into the grid; check `isGhostValue`
+ * first.
+ */
+export const boundaryGlsl = `
+  uniform int uBoundary;
+  uniform vec2 uBoundaryValue;
+
+  bool isGhostValue(vec2 uv) {
+    return uBoundary == ${BOUNDARY_MODE_INDEX.dirichlet} && (any(lessThan(uv, vec2(0.0))) || any(greaterThan(uv, vec2(1.0))));
+  }
+
+  vec2 boundaryUv(vec2 uv) {
+    return uBoundary == ${BOUNDARY_MODE_INDEX.periodic} ? fract(uv) : clamp(uv, 0.5 * uPixelSize, 1.0 - 0.5 * uPixelSize);
+  }
+`;
+
+export interface GrayScottOptions extends ReactionDiffusionParams {
+  dt?: number;
+  boundary?: BoundaryCondition;
+}
+
+// Sets u = 1 inside a disc given in UV coordinates, after each step.
+export interface Stimulus {
+  x: number;
+  y: number;
+  radius: number;
+}
+
+// Index of the neighbour `offset` cells away along one axis, for each cell,
+// as `boundaryGlsl` resolves it; -1 marks a Dirichlet ghost cell.
+export const neighbourTable = (size: number, offset: number, mode: BoundaryMode) =>
+  Int32Array.from({ length: size }, (_, i) => {
+    const j = i + offset;
+    if (mode === 'periodic') return (j + size) % size;
+    if (j >= 0 && j < size) return j;
+    return mode === 'dirichlet' ? -1 : Math.min(size - 1, Math.max(0, j));
+  });
+
+// Value of cell (i, j), or `ghost` where the neighbour table marks a ghost cell.
+const cellAt = (field: Float32Array, size: number, i: number, j: number, ghost: number) =>
+  (i < 0 || j < 0 ? ghost : field[j * size + i]);
+
+// 9-point stencil sum L at (x, y) with neighbours from `neighbourTable`,
+// reading `ghost` for Dirichlet ghost cells.
+export function stencilSum(
+  field: Float32Array,
+  size: number,
+  x: number,
+  y: number,
+  previous: Int32Array,
+  following: Int32Array,
+  ghost: number,
+): number {
+  const xl = previous[x];
+  const xr = following[x];
+  const yb = previous[y];
+  const ya = following[y];
+  return LAPLACIAN_EDGE_WEIGHT * (cellAt(field, size, xl, y, ghost) + cellAt(field, size, xr, y, ghost)
+      + cellAt(field, size, x, yb, ghost) + cellAt(field, size, x, ya, ghost))
+    + LAPLACIAN_CORNER_WEIGHT * (cellAt(field, size, xl, yb, ghost) + cellAt(field, size, xr, yb, ghost)
+      + cellAt(field, size, xl, ya, ghost) + cellAt(field, size, xr, ya, ghost))
+    - field[y * size + x];
+}
+
+/**
+ * Typed-array reference implementation of the Gray-Scott shaders: the same
+ * 9-point Laplacian, explicit Euler update and clamping to [0, 1], one texel
+ * per cell. Row 0 is v = 0 in texture space, so `toRGBA` matches the layout
+ * of a render-target readback. Has no DOM or WebGL dependencies.
+ */
+export class GrayScottSolver {
+  readonly size: number;
+  private feed: number;
+  private kill: number;
+  private dt: number;
+  private u: Float32Array;
+  private v: Float32Array;
+  private nextU: Float32Array;
+  private nextV: Float32Array;
+  private readonly previous: Int32Array;
+  private readonly following: Int32Array;
+  private readonly ghost: [number, number];
+
+  constructor(size: number, options: GrayScottOptions) {
+    this.size = size;
+    this.feed = options.feed;
+    this.kill = options.kill;
+    this.dt = options.dt ?? RD_TIMESTEP;
+    const cells = size * size;
+    this.u = new Float32Array(cells).fill(1);
+    this.v = new Float32Array(cells);
+    this.nextU = new Float32Array(cells);
+    this.nextV = new Float32Array(cells);
+    const boundary = options.boundary ?? NEUMANN_BOUNDARY;
+    this.previous = neighbourTable(size, -1, boundary.mode);
+    this.following = neighbourTable(size, 1, boundary.mode);
+    this.ghost = boundary.value;
+  }
+
+  get fieldU(): Float32Array {
+    return this.u;
+  }
+
+  get fieldV(): Float32Array {
+    return this.v;
+  }
+
+  setParams(params: Partial<GrayScottOptions>) {
+    this.feed = params.feed ?? this.feed;
+    this.kill = params.kill ?? this.kill;
+    this.dt = params.dt ?? this.dt;
+  }
+
+  // Loads u from the red and v from the green channel of RGBA texel data.
+  loadRGBA(data: ArrayLike<number>) {
+    for (let i = 0; i < this.u.length; i++) {
+      this.u[i] = data[i * 4];
+      this.v[i] = data[i * 4 + 1];
+    }
+  }
+
+  toRGBA(): Float32Array {
+    const data = new Float32Array(this.u.length * 4);
+    for (let i = 0; i < this.u.length; i++) {
+      data[i * 4] = this.u[i];
+      data[i * 4 + 1] = this.v[i];
+      data[i * 4 + 3] = 1;
+    }
+    return data;
+  }
+
+  run(steps: number, stimulus?: Stimulus) {
+    for (let step = 0; step < steps; step++) this.step(stimulus);
+  }
+
+  step(stimulus?: Stimulus) {
+    const { size, previous, following, ghost, feed, kill, dt, u, v, nextU, nextV } = this;
+    for (let y = 0; y < size; y++) {
+      for (let x = 0; x < size; x++) {
+        const i = y * size + x;
+        const lu = stencilSum(u, size, x, y, previous, following, ghost[0]);
+        const lv = stencilSum(v, size, x, y, previous, following, ghost[1]);
+        const reaction = u[i] * v[i] * v[i];
+        const un = u[i] + (DIFFUSION_U * lu - reaction + feed * (1 - u[i])) * dt;
+        const vn = v[i] + (DIFFUSION_V * lv + reaction - (feed + kill) * v[i]) * dt;
+        nextU[i] = un < 0 ? 0 : un > 1 ? 1 : un;
+        nextV[i] = vn < 0 ? 0 : vn > 1 ? 1 : vn;
+      }
+    }
+    if (stimulus) this.applyStimulus(nextU, stimulus);
+    this.u = nextU;
+    this.nextU = u;
+    this.v = nextV;
+    this.nextV = v;
+  }
+
+  // Texel centres sit at (i + 0.5) / size, as in the fragment shader's vUv.
+  private applyStimulus(target: Float32Array, { x, y, radius }: Stimulus) {
+    const { size } = this;
+    for (let j = 0; j < size; j++) {
+      const dy = (j + 0.5) / size - y;
+      for (let i = 0; i < size; i++) {
+        const dx = (i + 0.5) / size - x;
+        if (dx * dx + dy * dy < radius * radius) target[j * size + i] = 1;
+      }
+    }
+  }
+}
+
+/**
+ * Small periodic grid used to preview a feed/kill pair, seeded with random
+ * square patches of V. `run` advances a bounded number of steps so callers
+ * can spread the work over several frames.
+ */
+export class GrayScottPreview extends GrayScottSolver {
+  constructor(params: ReactionDiffusionParams, size = 48, seed = 1) {
+    super(size, { feed: params.feed, kill: params.kill, boundary: { mode: 'periodic', value: [1, 0] } });
+    const u = this.fieldU;
+    const v = this.fieldV;
+    const random = new SeededRandom(seed);
+    for (let patch = 0; patch < 12; patch++) {
+      const cx = Math.floor(random.next() * size);
+      const cy = Math.floor(random.next() * size);
+      for (let dy = -2; dy <= 2; dy++) {
+        for (let dx = -2; dx <= 2; dx++) {
+          const i = ((cy + dy + size) % size) * size + (cx + dx + size) % size;
+          u[i] = 0.5;
+          v[i] = 0.5;
+        }
+      }
+    }
+  }
+
+  get field(): Float32Array {
+    return this.fieldV;
+  }
+}
@@ -0,0 +1,34 @@
+import type { ReactionDiffusionParams } from '../types';
+
+export interface GrayScottPreset extends ReactionDiffusionParams {
+  id: string;
+  name: string;
+  pearsonClass?: string; // Pearson (1993) class, where the preset sits inside one
+  description: string;
+}
+
+// Named regimes of the Gray-Scott model. Feed/kill pairs follow Pearson's
+// classification and Munafo's xmorphia survey; patterns depend on the 2:1
+// diffusion ratio used by the simulation shader, not on the absolute values.
+export const GRAY_SCOTT_PRESETS: GrayScottPreset[] = [
+  { id: 'mitosis', name: 'Mitosis', pearsonClass: 'λ', feed: 0.0367, kill: 0.0649, description: 'Spots that grow and divide like cells.' },
+  { id: 'coral', name: 'Coral', pearsonClass: 'κ', feed: 0.0545, kill: 0.062, description: 'Branching, coral-like growth.' },
+  { id: 'solitons', name: 'Solitons', feed: 0.03, kill: 0.062, description: 'Stable isolated spots that repel each other.' },
+  { id: 'worms', name: 'Worms', feed: 0.078, kill: 0.061, description: 'Short stripes that lengthen into worms.' },
+  { id: 'maze', name: 'Maze', pearsonClass: 'θ', feed: 0.029, kill: 0.057, description: 'Labyrinthine stripes filling the surface.' },
+  { id: 'waves', name: 'Spiral Waves', pearsonClass: 'α', feed: 0.014, kill: 0.045, description: 'Travelling waves and rotating spirals.' },
+  { id: 'chaos', name: 'Chaos', pearsonClass: 'β', feed: 0.026, kill: 0.051, description: 'Turbulent, constantly changing fronts.' },
+  { id: 'holes', name: 'Holes', feed: 0.039, kill: 0.058, description: 'Negative spots: holes punched in a filled surface.' },
+  { id: 'u-skate', name: 'U-Skate', feed: 0.062, kill: 0.0609, description: 'Gliders that travel across the surface.' },
+  { id: 'fingerprints', name: 'Fingerprints', feed: 0.037, kill: 0.06, description: 'Curved parallel stripes.' },
+];
+
+// Extent of the feed/kill phase map.
+export const PHASE_MAP_BOUNDS = {
+  kill: [0.04, 0.07] as const,
+  feed: [0.0, 0.1] as const,
+};
+
+// Saddle-node line of the homogeneous system, k = sqrt(F)/2 - F: above it
+// (larger k) only the trivial state u = 1, v = 0 exists.
+export const saddleNodeKill = (feed: number) => Math.sqrt(feed) / 2 - feed;
@@ -0,0 +1,114 @@
+import type { GrayImage, InitialCondition } from '../types';
+import type { SeededRandom } from './random';
+
+export const DEFAULT_INITIAL_CONDITION: InitialCondition = {
+  kind: 'square',
+  seed: 1,
+  amplitude: 1,
+  count: 12,
+  patchSize: 20,
+  text: 'ThermoVis',
+  image: null,
+};
+
+// Nearest-neighbour lookup of `image` stretched over the unit square.
+const sampleImage = (image: GrayImage, x: number, y: number) => {
+  const ix = Math.min(image.width - 1, Math.floor(x * image.width));
+  const iy = Math.min(image.height - 1, Math.floor(y * image.height));
+  return image.values[iy * image.width + ix];
+};
+
+/**
+ * RGBA texel data (u in red, v in green) for a size x size field. U starts
+ * at 1 everywhere and the generators place V, so every kind starts from the
+ * same resting chemistry; only 'broken-wave' also depletes U. `mask`
+ * supplies V for 'text' and 'image' and defaults to the uploaded image.
+ */
+export function generateInitialState(
+  condition: InitialCondition,
+  size: number,
+  random: SeededRandom,
+  mask: GrayImage | null = condition.image,
+): Float32Array {
+  const { kind, amplitude, count, patchSize } = condition;
+  const data = new Float32Array(size * size * 4);
+  const u = new Float32Array(size * size).fill(1);
+  const v = new Float32Array(size * size);
+  const centre = size / 2;
+
+  switch (kind) {
+    case 'square':
+      for (let y = 0; y < size; y++) {
+        for (let x = 0; x < size; x++) {
+          if (Math.abs(x - centre) < patchSize && Math.abs(y - centre) < patchSize) v[y * size + x] = amplitude;
+        }
+      }
+      break;
+    case 'noise':
+      for (let i = 0; i < v.length; i++) v[i] = amplitude * random.next();
+      break;
+    case 'seeds':
+      for (let patch = 0; patch < count; patch++) {
+        const cx = Math.floor(random.next() * size);
+        const cy = Math.floor(random.next() * size);
+        for (let y = Math.max(0, cy - patchSize); y <= Math.min(size - 1, cy + patchSize); y++) {
+          for (let x = Math.max(0, cx - patchSize); x <= Math.min(size - 1, cx + patchSize); x++) {
+            v[y * size + x] = amplitude;
+          }
+        }
+      }
+      break;
+    case 'rings': {
+      // Rings evenly spaced out to the edge of the field, each 2 * patchSize wide
+      // but never more than half the spacing, so neighbours don't merge.
+      const spacing = centre / (count + 1);
+      const halfWidth = Math.min(patchSize, spacing / 4);
+      for (let y = 0; y < size; y++) {
+        for (let x = 0; x < size; x++) {
+          const r = Math.hypot(x + 0.5 - centre, y + 0.5 - centre);
+          const ring = Math.round(r / spacing);
+          if (ring >= 1 && ring <= count && Math.abs(r - ring * spacing) < halfWidth) v[y * size + x] = amplitude;
+        }
+      }
+      break;
+    }
+    case 'stripes': {
+      const spacing = size / count;
+      const halfWidth = Math.min(patchSize, spacing / 4);
+      for (let x = 0; x < size; x++) {
+        const offset = (x + 0.5) % spacing - spacing / 2;
+        if (Math.abs(offset) < halfWidth) {
+          for (let y = 0; y < size; y++) v[y * size + x] = amplitude;
+        }
+      }
+      break;
+    }
+    case 'broken-wave': {
+      // A wave segment ending at the centre with depleted U behind it, so it can
+      // only travel one way; in excitable media the free end curls into a spiral.
+      const width = Math.max(1, patchSize);
+      for (let y = Math.floor(centre); y < size; y++) {
+        for (let x = Math.max(0, Math.floor(centre - 3 * width)); x < centre; x++) {
+          if (x >= centre - width) v[y * size + x] = amplitude;
+          else u[y * size + x] = 1 - amplitude;
+        }
+      }
+      break;
+    }
+    case 'text':
+    case 'image':
+      if (mask) {
+        for (let y = 0; y < size; y++) {
+          for (let x = 0; x < size; x++) v[y * size + x] = amplitude * sampleImage(mask, (x + 0.5) / size, (y + 0.5) / size);
+        }
+      }
+      break;
+  }
+
+  for (let i = 0; i < v.length; i++) {
+    data[i * 4] = u[i];
+    data[i * 4 + 1] = v[i];
+    data[i * 4 + 3] = 1;
+  }
+  return data;
+}
@@ -0,0 +1,64 @@
+import type { SpeedHistogram } from '../types';
+
+// Abramowitz & Stegun 7.1.26, |error| < 1.5e-7.
+export function erf(x: number): number {
+  const sign = Math.sign(x);
+  const t = 1 / (1 + 0.3275911 * Math.abs(x));
+  const poly = t * (0.254829592 + t * (-0.284496736 + t * (1.421413741 + t * (-1.453152027 + t * 1.061405429))));
+  return sign * (1 - poly * Math.exp(-x * x));
+}
+
+// Maxwell-Boltzmann speed density in 3D for unit mass and k_B = 1.
+export function maxwellSpeedDensity(speed: number, temperature: number): number {
+  if (temperature <= 0) return 0;
+  return Math.sqrt(2 / Math.PI) * (speed * speed / Math.pow(temperature, 1.5)) * Math.exp(-speed * speed / (2 * temperature));
+}
+
+export function maxwellSpeedCdf(speed: number, temperature: number): number {
+  if (temperature <= 0) return 1;
+  const x = speed / Math.sqrt(temperature);
+  return erf(x / Math.SQRT2) - Math.sqrt(2 / Math.PI) * x * Math.exp(-x * x / 2);
+}
+
+/**
+ * Histograms `speeds` into bins of width `binWidth` starting at 0 and
+ * compares them with the Maxwell-Boltzmann distribution of the same mean
+ * kinetic energy (the maximum-likelihood fit, T = <v^2>/3).
+ *
+ * `klDivergence` is D(empirical || fit) over the bins, minus the
+ * Miller-Madow small-sample bias (occupied bins - 1) / 2N, so an
+ * equilibrium gas scores close to zero regardless of particle count.
+ * Speeds beyond the last bin are counted in it.
+ */
+export function buildSpeedHistogram(speeds: number[], binCount: number, binWidth: number): SpeedHistogram {
+  const counts = new Array<number>(binCount).fill(0);
+  let sumSq = 0;
+  for (const speed of speeds) {
+    counts[Math.min(binCount - 1, Math.floor(speed / binWidth))]++;
+    sumSq += speed * speed;
+  }
+  const total = speeds.length;
+  const temperature = total > 0 ? sumSq / (3 * total) : 0;
+
+  const density = counts.map(count => total > 0 ? count / (total * binWidth) : 0);
+  const fit = counts.map((_, i) => maxwellSpeedDensity((i + 0.5) * binWidth, temperature));
+
+  let divergence = 0;
+  let occupied = 0;
+  counts.forEach((count, i) => {
+    if (count === 0) return;
+    occupied++;
+    const p = count / total;
+    const upper = i === binCount - 1 ? 1 : maxwellSpeedCdf((i + 1) * binWidth, temperature);
+    const q = Math.max(1e-12, upper - maxwellSpeedCdf(i * binWidth, temperature));
+    divergence += p * Math.log(p / q);
+  });
+  const bias = total > 0 ? (occupied - 1) / (2 * total) : 0;
+
+  return {
+    density,
+    fit,
+    temperature,
+    klDivergence: Math.max(0, divergence - bias),
+  };
+}
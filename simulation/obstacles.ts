@@ -0,0 +1,111 @@
+import type { ObstaclePreset } from '../types';
+import { SeededRandom } from './random';
+
+// Mask value inside an obstacle; masks are uploaded as normalised 8-bit textures.
+export const OBSTACLE = 255;
+
+const MAZE_CELLS = 8; // Maze cells per side
+const PILLARS = 5; // Pillars per side
+
+// Sets every texel of the half-open rectangle, clipped to the grid.
+const fillRect = (mask: Uint8Array, size: number, x0: number, y0: number, x1: number, y1: number) => {
+  for (let y = Math.max(0, Math.floor(y0)); y < Math.min(size, Math.ceil(y1)); y++) {
+    mask.fill(OBSTACLE, y * size + Math.max(0, Math.floor(x0)), y * size + Math.min(size, Math.ceil(x1)));
+  }
+};
+
+// Random spanning tree over the maze cells (depth-first backtracker); returns
+// which walls remain to the right of and above each cell.
+const carveMaze = (cells: number, random: SeededRandom) => {
+  const right = new Array<boolean>(cells * cells).fill(true);
+  const top = new Array<boolean>(cells * cells).fill(true);
+  const visited = new Array<boolean>(cells * cells).fill(false);
+  const stack = [0];
+  visited[0] = true;
+  while (stack.length > 0) {
+    const cell = stack[stack.length - 1];
+    const x = cell % cells;
+    const y = Math.floor(cell / cells);
+    const options = [
+      x > 0 ? cell - 1 : -1,
+      x < cells - 1 ? cell + 1 : -1,
+      y > 0 ? cell - cells : -1,
+      y < cells - 1 ? cell + cells : -1,
+    ].filter(next => next >= 0 && !visited[next]);
+    if (options.length === 0) {
+      stack.pop();
+      continue;
+    }
+    const next = options[Math.floor(random.next() * options.length)];
+    if (next === cell - 1) right[next] = false;
+    else if (next === cell + 1) right[cell] = false;
+    else if (next === cell - cells) top[next] = false;
+    else top[cell] = false;
+    visited[next] = true;
+    stack.push(next);
+  }
+  return { right, top };
+};
+
+/**
+ * Obstacle mask for a size x size field, row 0 at the bottom like texture
+ * data: OBSTACLE inside obstacles, 0 elsewhere. Walls are size / 64 texels
+ * thick. `random` only affects the maze.
+ */
+export function generateObstacleMask(preset: ObstaclePreset, size: number, random = new SeededRandom(1)): Uint8Array {
+  const mask = new Uint8Array(size * size);
+  const half = Math.max(1, size / 128);
+  const centre = size / 2;
+
+  switch (preset) {
+    case 'none':
+      break;
+    case 'slit':
+      // A wall across the field with one gap in the middle.
+      fillRect(mask, size, centre - half, 0, centre + half, centre - size / 16);
+      fillRect(mask, size, centre - half, centre + size / 16, centre + half, size);
+      break;
+    case 'ring': {
+      const radius = size / 4;
+      for (let y = 0; y < size; y++) {
+        for (let x = 0; x < size; x++) {
+          if (Math.abs(Math.hypot(x + 0.5 - centre, y + 0.5 - centre) - radius) < half) mask[y * size + x] = OBSTACLE;
+        }
+      }
+      break;
+    }
+    case 'pillars': {
+      const spacing = size / PILLARS;
+      const radius = size / 40;
+      for (let y = 0; y < size; y++) {
+        for (let x = 0; x < size; x++) {
+          const dx = ((x + 0.5) % spacing) - spacing / 2;
+          const dy = ((y + 0.5) % spacing) - spacing / 2;
+          if (dx * dx + dy * dy < radius * radius) mask[y * size + x] = OBSTACLE;
+        }
+      }
+      break;
+    }
+    case 'maze': {
+      // Interior walls only. Fixed or no-flux edges close the maze; under
+      // periodic boundaries its paths continue across the edges.
+      const cell = size / MAZE_CELLS;
+      const { right, top } = carveMaze(MAZE_CELLS, random);
+      for (let cy = 0; cy < MAZE_CELLS; cy++) {
+        for (let cx = 0; cx < MAZE_CELLS; cx++) {
+          const i = cy * MAZE_CELLS + cx;
+          if (cx < MAZE_CELLS - 1 && right[i]) {
+            const x = (cx + 1) * cell;
+            fillRect(mask, size, x - half, cy * cell - half, x + half, (cy + 1) * cell + half);
+          }
+          if (cy < MAZE_CELLS - 1 && top[i]) {
+            const y = (cy + 1) * cell;
+            fillRect(mask, size, cx * cell - half, y - half, (cx + 1) * cell + half, y + half);
+          }
+        }
+      }
+      break;
+    }
+  }
+  return mask;
+}
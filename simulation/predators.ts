@@ -0,0 +1,182 @@
+import type { BoidsParams } from '../types';
+import { BOIDS_BOUNDS, confine, wrapOffset } from './boids';
+import type { BoidFlock, Threats } from './boids';
+import { SeededRandom } from './random';
+
+export const MAX_PREDATORS = 64;
+const CAPTURE_RADIUS = 0.6; // A hunter this close to its target can strike
+const STRIKE_RECOVERY_STEPS = 20; // A missed strike leaves a hunter unable to strike again for this long
+const TURN_FORCE_FRACTION = 0.1; // Largest change in velocity per step, as a fraction of the hunting speed
+
+/**
+ * Autonomous hunters for a BoidFlock in the same cube, stored like
+ * the flock: hunter k's position and velocity are entries 3k to 3k + 2.
+ * Hunters see boids within the predator radius, the range at which boids
+ * see them, and cruise straight on when none are in sight; otherwise each
+ * step every hunter chases one boid: the nearest, or with 'isolated'
+ * targeting the one minimising distance × (1 + flockmates), so stragglers
+ * a little further away are preferred to boids inside a flock. Within
+ * capture range it strikes, succeeding with probability
+ * 1 / (1 + confusion × flockmates of the target): dense groups confuse it.
+ * A hunter dies after `predatorStarvation` steps without a capture and
+ * splits in two after `predatorBirthMeals` captures; with the flock's
+ * logistic births the two populations rise and fall out of phase, in
+ * noisy, Lotka–Volterra-like cycles. Targets are found by a scan of the whole flock, O(n) per
+ * hunter, which stays cheap for a few dozen hunters.
+ */
+export class PredatorPack implements Threats {
+  readonly positions = new Float32Array(3 * MAX_PREDATORS);
+  readonly velocities = new Float32Array(3 * MAX_PREDATORS);
+  private readonly hunger = new Int32Array(MAX_PREDATORS); // Steps since the last capture
+  private readonly meals = new Int32Array(MAX_PREDATORS); // Captures since the last split
+  private readonly recovery = new Int32Array(MAX_PREDATORS); // Steps until the next strike
+  private readonly captured = new Int32Array(MAX_PREDATORS);
+  private alive = 0;
+  private params: BoidsParams;
+  private readonly random: SeededRandom;
+
+  // Releases `params.predatorCount` hunters at random positions.
+  constructor(params: BoidsParams, random = new SeededRandom(2)) {
+    this.params = { ...params };
+    this.random = random;
+    const count = Math.min(MAX_PREDATORS, params.predatorCount);
+    for (let k = 0; k < count; k++) {
+      this.spawn(
+        random.range(-0.5, 0.5) * BOIDS_BOUNDS,
+        random.range(-0.5, 0.5) * BOIDS_BOUNDS,
+        random.range(-0.5, 0.5) * BOIDS_BOUNDS,
+      );
+    }
+  }
+
+  get count(): number {
+    return this.alive;
+  }
+
+  setParams(params: Partial<BoidsParams>) {
+    this.params = { ...this.params, ...params };
+  }
+
+  // Moves every hunter, removes the boids it catches, then lets hunters
+  // starve or split. Call after flock.step, whose flockmate counts it uses.
+  hunt(flock: BoidFlock) {
+    const { positions, velocities, hunger, meals, recovery, captured, random } = this;
+    const { predatorSpeed, predatorTargeting, confusion, predatorStarvation, predatorBirthMeals, boundary } = this.params;
+    const periodic = boundary === 'periodic';
+    const maxForce = predatorSpeed * TURN_FORCE_FRACTION;
+    let captures = 0;
+
+    for (let k = 0; k < this.alive; k++) {
+      hunger[k]++;
+      if (recovery[k] > 0) recovery[k]--;
+      const target = this.chooseTarget(k, flock, predatorTargeting === 'isolated');
+      if (target < 0) {
+        this.move(k);
+        continue;
+      }
+
+      const dx = wrapOffset(flock.positions[3 * target] - positions[3 * k], periodic);
+      const dy = wrapOffset(flock.positions[3 * target + 1] - positions[3 * k + 1], periodic);
+      const dz = wrapOffset(flock.positions[3 * target + 2] - positions[3 * k + 2], periodic);
+      const distance = Math.sqrt(dx * dx + dy * dy + dz * dz);
+      if (distance > 0) {
+        let sx = (dx * predatorSpeed) / distance - velocities[3 * k];
+        let sy = (dy * predatorSpeed) / distance - velocities[3 * k + 1];
+        let sz = (dz * predatorSpeed) / distance - velocities[3 * k + 2];
+        const force = Math.sqrt(sx * sx + sy * sy + sz * sz);
+        if (force > maxForce) {
+          sx *= maxForce / force;
+          sy *= maxForce / force;
+          sz *= maxForce / force;
+        }
+        velocities[3 * k] += sx;
+        velocities[3 * k + 1] += sy;
+        velocities[3 * k + 2] += sz;
+      }
+      this.move(k);
+
+      if (distance > CAPTURE_RADIUS + predatorSpeed || recovery[k] > 0 || captured.subarray(0, captures).includes(target)) continue;
+      if (random.next() < 1 / (1 + confusion * flock.neighbourCounts[target])) {
+        captured[captures++] = target;
+        hunger[k] = 0;
+        meals[k]++;
+      } else {
+        recovery[k] = STRIKE_RECOVERY_STEPS;
+      }
+    }
+
+    captured.subarray(0, captures).sort().reverse();
+    for (let c = 0; c < captures; c++) flock.remove(captured[c]);
+
+    for (let k = this.alive - 1; k >= 0; k--) {
+      if (hunger[k] > predatorStarvation) {
+        this.remove(k);
+      } else if (meals[k] >= predatorBirthMeals && this.alive < MAX_PREDATORS) {
+        meals[k] = 0;
+        this.spawn(positions[3 * k], positions[3 * k + 1], positions[3 * k + 2]);
+      }
+    }
+  }
+
+  // Clamps hunter k to the hunting speed and moves it, confined like the
+  // boids. Hunters do not steer around obstacles; they slide off them.
+  private move(k: number) {
+    const { positions, velocities } = this;
+    const { predatorSpeed, boundary, obstacles } = this.params;
+    const speed = Math.sqrt(velocities[3 * k] ** 2 + velocities[3 * k + 1] ** 2 + velocities[3 * k + 2] ** 2);
+    for (let axis = 0; axis < 3; axis++) {
+      if (speed > predatorSpeed) velocities[3 * k + axis] *= predatorSpeed / speed;
+      positions[3 * k + axis] += velocities[3 * k + axis];
+    }
+    confine(positions, velocities, k, boundary, obstacles);
+  }
+
+  // Index of hunter k's target among the boids it can see, or -1 if none.
+  private chooseTarget(k: number, flock: BoidFlock, isolated: boolean): number {
+    const { positions: boids, neighbourCounts } = flock;
+    const visionSq = this.params.predatorRadius ** 2;
+    const periodic = this.params.boundary === 'periodic';
+    const x = this.positions[3 * k];
+    const y = this.positions[3 * k + 1];
+    const z = this.positions[3 * k + 2];
+    let best = -1;
+    let bestScore = Infinity;
+    for (let i = 0; i < flock.count; i++) {
+      const dx = wrapOffset(boids[3 * i] - x, periodic);
+      const dy = wrapOffset(boids[3 * i + 1] - y, periodic);
+      const dz = wrapOffset(boids[3 * i + 2] - z, periodic);
+      // Squared distance, scaled by the squared crowding factor when isolated.
+      let score = dx * dx + dy * dy + dz * dz;
+      if (score > visionSq) continue;
+      if (isolated) score *= (1 + neighbourCounts[i]) ** 2;
+      if (score < bestScore) {
+        bestScore = score;
+        best = i;
+      }
+    }
+    return best;
+  }
+
+  // A new, fed hunter at (x, y, z), heading off in a random direction.
+  private spawn(x: number, y: number, z: number) {
+    const k = this.alive++;
+    const vx = this.random.range(-1, 1);
+    const vy = this.random.range(-1, 1);
+    const vz = this.random.range(-1, 1);
+    const scale = this.params.predatorSpeed / (Math.sqrt(vx * vx + vy * vy + vz * vz) || 1);
+    this.positions.set([x, y, z], 3 * k);
+    this.velocities.set([vx * scale, vy * scale, vz * scale], 3 * k);
+    this.hunger[k] = 0;
+    this.meals[k] = 0;
+    this.recovery[k] = 0;
+  }
+
+  private remove(k: number) {
+    const last = --this.alive;
+    this.positions.copyWithin(3 * k, 3 * last, 3 * last + 3);
+    this.velocities.copyWithin(3 * k, 3 * last, 3 * last + 3);
+    this.hunger[k] = this.hunger[last];
+    this.meals[k] = this.meals[last];
+    this.recovery[k] = this.recovery[last];
+  }
+}
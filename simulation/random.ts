@@ -0,0 +1,39 @@
+// Small seeded PRNG so simulations can be replayed exactly from a seed.
+// Mulberry32: 32-bit state, fast, and good enough for physics sampling.
+export class SeededRandom {
+  private state: number;
+  private spareGaussian: number | null = null;
+
+  constructor(seed: number) {
+    this.state = seed >>> 0;
+  }
+
+  // Uniform float in [0, 1).
+  next(): number {
+    this.state = (this.state + 0x6d2b79f5) >>> 0;
+    let t = this.state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }
+
+  // Uniform float in [min, max).
+  range(min: number, max: number): number {
+    return min + (max - min) * this.next();
+  }
+
+  // Standard normal sample (Box-Muller, caching the second value).
+  gaussian(): number {
+    if (this.spareGaussian !== null) {
+      const value = this.spareGaussian;
+      this.spareGaussian = null;
+      return value;
+    }
+    let u = 0;
+    while (u === 0) u = this.next();
+    const v = this.next();
+    const radius = Math.sqrt(-2 * Math.log(u));
+    this.spareGaussian = radius * Math.sin(2 * Math.PI * v);
+    return radius * Math.cos(2 * Math.PI * v);
+  }
+}
@@ -0,0 +1,62 @@
+/**
+ * Uniform-grid neighbor search over a cube centred on the origin.
+ * Items are stored as singly linked lists per cell (head/next arrays), so
+ * rebuilding every step costs O(n) and allocates nothing once sized.
+ */
+export class SpatialGrid {
+  readonly cellsPerAxis: number;
+  readonly cellSize: number;
+  private readonly halfExtent: number;
+  private readonly head: Int32Array;
+  private next: Int32Array;
+
+  // `cellSize` is a lower bound: it is rounded up so cells tile the cube exactly.
+  constructor(halfExtent: number, cellSize: number, capacity = 0) {
+    this.halfExtent = halfExtent;
+    this.cellsPerAxis = Math.max(1, Math.floor((2 * halfExtent) / cellSize));
+    this.cellSize = (2 * halfExtent) / this.cellsPerAxis;
+    this.head = new Int32Array(this.cellsPerAxis ** 3).fill(-1);
+    this.next = new Int32Array(capacity);
+  }
+
+  clear() {
+    this.head.fill(-1);
+  }
+
+  insert(index: number, x: number, y: number, z: number) {
+    if (index >= this.next.length) {
+      const grown = new Int32Array(Math.max(index + 1, this.next.length * 2));
+      grown.set(this.next);
+      this.next = grown;
+    }
+    const cell = this.cellIndex(this.axisCell(x), this.axisCell(y), this.axisCell(z));
+    this.next[index] = this.head[cell];
+    this.head[cell] = index;
+  }
+
+  // Visits every item in the 3x3x3 block of cells around (x, y, z).
+  forEachNear(x: number, y: number, z: number, visit: (index: number) => void) {
+    const n = this.cellsPerAxis;
+    const cx = this.axisCell(x);
+    const cy = this.axisCell(y);
+    const cz = this.axisCell(z);
+    for (let ix = Math.max(0, cx - 1); ix <= Math.min(n - 1, cx + 1); ix++) {
+      for (let iy = Math.max(0, cy - 1); iy <= Math.min(n - 1, cy + 1); iy++) {
+        for (let iz = Math.max(0, cz - 1); iz <= Math.min(n - 1, cz + 1); iz++) {
+          for (let i = this.head[this.cellIndex(ix, iy, iz)]; i !== -1; i = this.next[i]) {
+            visit(i);
+          }
+        }
+      }
+    }
+  }
+
+  private axisCell(value: number): number {
+    const cell = Math.floor((value + this.halfExtent) / this.cellSize);
+    return Math.min(this.cellsPerAxis - 1, Math.max(0, cell));
+  }
+
+  private cellIndex(ix: number, iy: number, iz: number): number {
+    return (ix * this.cellsPerAxis + iy) * this.cellsPerAxis + iz;
+  }
+}
@@ -0,0 +1,228 @@
+import type { SystemState, StateChangeEvent } from '../types';
+
+export interface ClassifierSample {
+  time: number;
+  meanTemperature: number;
+  heatIn: number;
+  heatOut: number;
+}
+
+// Samples per analysis window, split into blocks so that the serial
+// correlation inside each block mostly averages out before testing.
+const WINDOW = 120;
+const BLOCKS = 10;
+// Hysteresis: stronger evidence is needed to leave a state than to stay in
+// it, and a new label must win several evaluations in a row.
+const ENTER_STATIONARY_T = 3.0;
+const LEAVE_STATIONARY_T = 5.0;
+const ENTER_STEADY_FLUX_T = 5.0;
+const LEAVE_STEADY_FLUX_T = 2.5;
+const CONFIRMATIONS = 5;
+// Slow thermal fluctuations are serially correlated, which inflates the t
+// statistic, so a drift must also dominate the scatter: the fitted trend
+// has to move the mean temperature by this many residual standard
+// deviations across the window, and by at least MIN_RELATIVE_DRIFT.
+const MIN_DRIFT_TO_NOISE = 4;
+const MIN_RELATIVE_DRIFT = 0.03;
+// Both drift bounds are scaled up by this when leaving a stationary state.
+const LEAVE_DRIFT_FACTOR = 2;
+// A transient that hasn't settled after this many windows is called chaotic.
+const MAX_TRANSIENT_WINDOWS = 10;
+// The transient is kept at every sample up to this many (an even number),
+// then at every other stored sample, and so on, so a long one fits.
+const MAX_TRANSIENT_SAMPLES = 512;
+const MAX_EVENTS = 20;
+
+const mean = (values: number[]) => values.reduce((a, b) => a + b, 0) / values.length;
+
+const blockMeans = (values: number[]) => {
+  const size = values.length / BLOCKS;
+  return Array.from({ length: BLOCKS }, (_, b) => mean(values.slice(Math.round(b * size), Math.round((b + 1) * size))));
+};
+
+// Least-squares slope (per block) through the block means, with its t
+// statistic and the scatter of the raw samples about the fitted line.
+function blockTrend(values: number[]): { slope: number; t: number; scatter: number } {
+  const y = blockMeans(values);
+  const n = y.length;
+  const xMean = (n - 1) / 2;
+  const yMean = mean(y);
+  let sxx = 0;
+  let sxy = 0;
+  y.forEach((v, i) => {
+    sxx += (i - xMean) ** 2;
+    sxy += (i - xMean) * (v - yMean);
+  });
+  const slope = sxy / sxx;
+  const residual = y.reduce((sum, v, i) => sum + (v - yMean - slope * (i - xMean)) ** 2, 0);
+  const slopeError = Math.sqrt(residual / (n - 2) / sxx);
+  const t = slopeError === 0 ? (slope === 0 ? 0 : Infinity) : Math.abs(slope / slopeError);
+  const perSample = slope * BLOCKS / values.length;
+  const sampleMid = (values.length - 1) / 2;
+  const scatter = Math.sqrt(values.reduce((sum, v, i) => sum + (v - yMean - perSample * (i - sampleMid)) ** 2, 0) / values.length);
+  return { slope, t, scatter };
+}
+
+// t statistic of the block means against zero.
+function meanStatistic(values: number[]): number {
+  const y = blockMeans(values);
+  const m = mean(y);
+  const sd = Math.sqrt(y.reduce((sum, v) => sum + (v - m) ** 2, 0) / (y.length - 1));
+  if (sd === 0) return m === 0 ? 0 : Infinity;
+  return Math.abs(m / (sd / Math.sqrt(y.length)));
+}
+
+/**
+ * Windowed, hysteretic classification of the gas state from a stream of
+ * samples. A window is stationary unless the mean temperature shows a
+ * trend that is both statistically significant and sizeable; stationary windows
+ * are 'Steady State' if a significant heat flux crosses the gas and
+ * 'Near Equilibrium' otherwise. Non-stationary windows are 'Relaxing',
+ * and become 'Chaotic' if they fail to settle.
+ */
+export class SystemStateClassifier {
+  private samples: ClassifierSample[] = [];
+  private state: SystemState = 'Initializing';
+  private candidate: SystemState | null = null;
+  private candidateCount = 0;
+  private transientStart: number | null = null;
+  private transientSamples: ClassifierSample[] = [];
+  private transientStride = 1; // Samples per stored transient sample
+  private transientSkipped = 0; // Samples since the last one stored
+  private relaxationTime: number | null = null;
+  private events: StateChangeEvent[] = [];
+  private nextEventId = 1;
+
+  get currentState(): SystemState {
+    return this.state;
+  }
+
+  get currentRelaxationTime(): number | null {
+    return this.relaxationTime;
+  }
+
+  get stateEvents(): StateChangeEvent[] {
+    return this.events;
+  }
+
+  reset(time = 0) {
+    this.samples = [];
+    this.candidate = null;
+    this.candidateCount = 0;
+    this.transientStart = time;
+    this.restartTransient();
+    this.relaxationTime = null;
+    this.state = 'Initializing';
+    this.events = [];
+  }
+
+  // Called when the driving parameters change: the old steady state no longer applies.
+  perturb(time: number, reason: string) {
+    this.samples = [];
+    this.candidate = null;
+    this.candidateCount = 0;
+    this.transientStart = time;
+    this.restartTransient();
+    this.relaxationTime = null;
+    this.transition('Relaxing', time, reason);
+  }
+
+  push(sample: ClassifierSample) {
+    this.samples.push(sample);
+    if (this.samples.length > WINDOW) this.samples.shift();
+    if (this.transientStart !== null) this.recordTransient(sample);
+    if (this.samples.length < WINDOW) return;
+
+    const [label, reason] = this.evaluate(sample.time);
+    if (label === this.state) {
+      this.candidate = null;
+      this.candidateCount = 0;
+      return;
+    }
+    if (label !== this.candidate) {
+      this.candidate = label;
+      this.candidateCount = 0;
+    }
+    if (++this.candidateCount < CONFIRMATIONS) return;
+
+    if (this.transientStart !== null && (label === 'Steady State' || label === 'Near Equilibrium')) {
+      this.relaxationTime = this.estimateRelaxationTime(sample.time);
+      this.transientStart = null;
+      this.restartTransient();
+    } else if (this.transientStart === null && label === 'Relaxing') {
+      this.transientStart = sample.time;
+      this.restartTransient(this.samples.slice());
+    }
+    this.transition(label, sample.time, reason);
+    this.candidate = null;
+    this.candidateCount = 0;
+  }
+
+  private restartTransient(samples: ClassifierSample[] = []) {
+    this.transientSamples = samples;
+    this.transientStride = 1;
+    this.transientSkipped = 0;
+  }
+
+  // Stores every transientStride-th sample; past MAX_TRANSIENT_SAMPLES the
+  // stored series drops every other sample, keeping the first and the last.
+  private recordTransient(sample: ClassifierSample) {
+    if (++this.transientSkipped < this.transientStride) return;
+    this.transientSkipped = 0;
+    this.transientSamples.push(sample);
+    if (this.transientSamples.length > MAX_TRANSIENT_SAMPLES) {
+      this.transientSamples = this.transientSamples.filter((_, i) => i % 2 === 0);
+      this.transientStride *= 2;
+    }
+  }
+
+  private evaluate(time: number): [SystemState, string] {
+    const temperatures = this.samples.map(s => s.meanTemperature);
+    const flux = this.samples.map(s => (s.heatIn + s.heatOut) / 2);
+
+    const trend = blockTrend(temperatures);
+    const change = Math.abs(trend.slope * BLOCKS);
+    const drift = change / Math.max(1e-12, Math.abs(mean(temperatures)));
+    const wasStationary = this.state === 'Steady State' || this.state === 'Near Equilibrium';
+    const threshold = wasStationary ? LEAVE_STATIONARY_T : ENTER_STATIONARY_T;
+    const margin = wasStationary ? LEAVE_DRIFT_FACTOR : 1;
+
+    if (trend.t > threshold && drift > margin * MIN_RELATIVE_DRIFT && change > margin * MIN_DRIFT_TO_NOISE * trend.scatter) {
+      const windowDuration = time - this.samples[0].time;
+      const transientDuration = this.transientStart === null ? 0 : time - this.transientStart;
+      if (transientDuration > MAX_TRANSIENT_WINDOWS * windowDuration) {
+        return ['Chaotic', `No stationary window after ${transientDuration} steps`];
+      }
+      return ['Relaxing', `Mean temperature drifting ${(drift * 100).toFixed(0)}% per window (t = ${trend.t.toFixed(1)})`];
+    }
+    const fluxT = meanStatistic(flux);
+    const fluxThreshold = this.state === 'Steady State' ? LEAVE_STEADY_FLUX_T : ENTER_STEADY_FLUX_T;
+    if (fluxT > fluxThreshold) return ['Steady State', `Stationary with heat flux (t = ${fluxT.toFixed(1)})`];
+    return ['Near Equilibrium', 'Stationary without significant heat flux'];
+  }
+
+  // Integral of the normalised mean-temperature deviation over the transient:
+  // exact for a single exponential and a robust estimate otherwise. Falls back
+  // to the time taken to settle when the temperature barely moved.
+  private estimateRelaxationTime(time: number): number {
+    const start = this.transientStart ?? time;
+    const samples = this.transientSamples;
+    if (samples.length < 2) return time - start;
+    const final = mean(this.samples.map(s => s.meanTemperature));
+    const initial = samples[0].meanTemperature;
+    const span = initial - final;
+    if (Math.abs(span) < 1e-3 * Math.abs(final)) return time - start;
+    let integral = 0;
+    for (let i = 1; i < samples.length; i++) {
+      const dt = samples[i].time - samples[i - 1].time;
+      integral += dt * Math.max(0, (samples[i].meanTemperature - final) / span);
+    }
+    return integral;
+  }
+
+  private transition(to: SystemState, time: number, reason: string) {
+    if (to === this.state) return;
+    this.events = [...this.events, { id: this.nextEventId++, time, from: this.state, to, reason }].slice(-MAX_EVENTS);
+    this.state = to;
+  }
+}
@@ -0,0 +1,403 @@
+import type { SimulationParams, SimulationData } from '../types';
+import { SeededRandom } from './random';
+import { SpatialGrid } from './spatialGrid';
+import { WindowedAverage } from './windowedAverage';
+import { buildSpeedHistogram } from './maxwellBoltzmann';
+import { SystemStateClassifier } from './stateClassifier';
+
+export const BOX_SIZE = 6;
+export const SLICES = 10;
+
+// One step advances the gas by one 60 Hz frame; velocities are in box units per step.
+export const FIXED_TIMESTEP = 1 / 60;
+// Collision radius is `size * PARTICLE_RADIUS_SCALE`; the scene draws sprites at the same scale.
+export const PARTICLE_RADIUS_SCALE = 0.1;
+const MAX_PARTICLE_SIZE = 1.0;
+// Speed histograms span 0..SPEED_RANGE * sqrt(T) of the whole gas.
+const SPEED_BINS = 16;
+const SPEED_RANGE = 4;
+// Steps pooled into each sample handed to the state classifier.
+const CLASSIFIER_INTERVAL = 10;
+// Cap on catch-up steps per advance() so a stalled tab doesn't spiral.
+const MAX_STEPS_PER_ADVANCE = 5;
+
+export interface Vec3 {
+  x: number;
+  y: number;
+  z: number;
+}
+
+export interface Particle {
+  position: Vec3;
+  velocity: Vec3;
+  size: number;
+}
+
+const speedSq = (v: Vec3) => v.x * v.x + v.y * v.y + v.z * v.z;
+
+const clampToBox = (p: Vec3) => {
+  const halfBox = BOX_SIZE / 2;
+  p.x = Math.min(halfBox, Math.max(-halfBox, p.x));
+  p.y = Math.min(halfBox, Math.max(-halfBox, p.y));
+  p.z = Math.min(halfBox, Math.max(-halfBox, p.z));
+};
+
+const initialData = (): SimulationData => ({
+  time: 0,
+  temperatureGradient: [],
+  entropyProduction: 0,
+  systemState: 'Initializing',
+  heatFlux: { hot: 0, cold: 0 },
+  boundaryHeatFlux: [],
+  localEntropyProduction: [],
+  thermalConductivity: 0,
+  speedDistribution: { binCenters: [], global: null, slices: [] },
+  relaxationTime: null,
+  stateEvents: [],
+});
+
+// Layout of the per-step sample fed to the averaging window.
+const SAMPLE_HOT = 0;
+const SAMPLE_COLD = 1;
+const SAMPLE_BOUNDARY = 2; // SLICES - 1 entries: energy moved across each boundary in +x
+const SAMPLE_V2 = SAMPLE_BOUNDARY + SLICES - 1; // SLICES entries: sum of v^2 per slice
+const SAMPLE_COUNT = SAMPLE_V2 + SLICES; // SLICES entries: particles per slice
+const SAMPLE_WIDTH = SAMPLE_COUNT + SLICES;
+
+const sliceOf = (x: number) =>
+  Math.min(SLICES - 1, Math.max(0, Math.floor(((x + BOX_SIZE / 2) / BOX_SIZE) * SLICES)));
+
+/**
+ * Headless gas simulation between a hot wall (+x) and a cold wall (-x).
+ * Particles are equal-mass hard spheres that collide elastically, so heat
+ * is conducted through the gas rather than carried ballistically.
+ * Deterministic for a given seed and step count, so it can run in scripts
+ * and tests without a renderer; the scene only draws `particles`.
+ *
+ * Energy bookkeeping is exact per step: wall exchanges, particles carrying
+ * kinetic energy across slice boundaries, and collisions between particles
+ * in different slices are all attributed, then averaged over
+ * `params.averagingWindow` steps before fluxes and entropy production are
+ * derived.
+ */
+export class ThermodynamicsEngine {
+  particles: Particle[] = [];
+  private params: SimulationParams;
+  private random!: SeededRandom;
+  private accumulator = 0;
+  private time = 0;
+  private data: SimulationData = initialData();
+  private dataIsStale = false;
+  private grid = new SpatialGrid(BOX_SIZE / 2, 2 * MAX_PARTICLE_SIZE * PARTICLE_RADIUS_SCALE);
+  private particleSlices = new Int32Array(0);
+  private sample = new Float64Array(SAMPLE_WIDTH);
+  private averages: WindowedAverage;
+  private classifier = new SystemStateClassifier();
+  private interval = { steps: 0, heatIn: 0, heatOut: 0, temperature: 0 };
+
+  constructor(params: SimulationParams) {
+    this.params = { ...params };
+    this.averages = new WindowedAverage(SAMPLE_WIDTH, params.averagingWindow);
+    this.reset();
+  }
+
+  setParams(params: SimulationParams) {
+    const previous = this.params;
+    const needsReset = params.particleCount !== previous.particleCount || params.seed !== previous.seed;
+    const drivingChanged = params.wallModel !== previous.wallModel
+      || params.heat !== previous.heat
+      || params.hotTemperature !== previous.hotTemperature
+      || params.coldTemperature !== previous.coldTemperature;
+    if (params.averagingWindow !== previous.averagingWindow) {
+      this.averages = new WindowedAverage(SAMPLE_WIDTH, params.averagingWindow);
+    }
+    this.params = { ...params };
+    if (needsReset) {
+      this.reset();
+    } else if (drivingChanged) {
+      this.classifier.perturb(this.time, 'Wall parameters changed');
+      this.dataIsStale = true;
+    }
+  }
+
+  reset() {
+    const random = (this.random = new SeededRandom(this.params.seed));
+    this.particles = Array.from({ length: this.params.particleCount }, () => ({
+      position: {
+        x: random.range(-0.5, 0.5) * BOX_SIZE,
+        y: random.range(-0.5, 0.5) * BOX_SIZE,
+        z: random.range(-0.5, 0.5) * BOX_SIZE,
+      },
+      velocity: {
+        x: random.range(-0.5, 0.5) * 0.1,
+        y: random.range(-0.5, 0.5) * 0.1,
+        z: random.range(-0.5, 0.5) * 0.1,
+      },
+      size: random.next() * 0.5 + 0.5,
+    }));
+    this.particleSlices = Int32Array.from(this.particles, p => sliceOf(p.position.x));
+    this.averages.clear();
+    this.accumulator = 0;
+    this.time = 0;
+    this.interval = { steps: 0, heatIn: 0, heatOut: 0, temperature: 0 };
+    this.classifier.reset(0);
+    this.data = initialData();
+    this.dataIsStale = true;
+  }
+
+  // Runs as many fixed steps as fit in `delta` seconds; returns how many ran.
+  advance(delta: number): number {
+    this.accumulator += delta;
+    let steps = 0;
+    while (this.accumulator >= FIXED_TIMESTEP && steps < MAX_STEPS_PER_ADVANCE) {
+      this.step();
+      this.accumulator -= FIXED_TIMESTEP;
+      steps++;
+    }
+    if (steps === MAX_STEPS_PER_ADVANCE) this.accumulator = 0;
+    return steps;
+  }
+
+  step() {
+    const halfBox = BOX_SIZE / 2;
+    const { sample, particleSlices } = this;
+    sample.fill(0);
+
+    for (const { position, velocity } of this.particles) {
+      position.x += velocity.x;
+      position.y += velocity.y;
+      position.z += velocity.z;
+
+      if (Math.abs(position.x) > halfBox) {
+        const hot = position.x > 0;
+        position.x = Math.sign(position.x) * halfBox;
+
+        const oldSpeedSq = speedSq(velocity);
+        this.reflectFromWall(velocity, hot);
+        const gained = (speedSq(velocity) - oldSpeedSq) / 2;
+        if (hot) sample[SAMPLE_HOT] += gained;
+        else sample[SAMPLE_COLD] -= gained;
+      }
+      if (Math.abs(position.y) > halfBox) velocity.y *= -1;
+      if (Math.abs(position.z) > halfBox) velocity.z *= -1;
+    }
+
+    this.collide();
+
+    this.particles.forEach(({ position, velocity }, i) => {
+      const v2 = speedSq(velocity);
+      const slice = sliceOf(position.x);
+      if (slice !== particleSlices[i]) {
+        this.recordTransfer(particleSlices[i], slice, v2 / 2);
+        particleSlices[i] = slice;
+      }
+      sample[SAMPLE_V2 + slice] += v2;
+      sample[SAMPLE_COUNT + slice]++;
+    });
+
+    this.averages.push(sample);
+    this.time++;
+    this.dataIsStale = true;
+    this.sampleForClassifier();
+  }
+
+  private sampleForClassifier() {
+    const { sample, interval } = this;
+    let v2 = 0;
+    for (let k = 0; k < SLICES; k++) v2 += sample[SAMPLE_V2 + k];
+    interval.steps++;
+    interval.heatIn += sample[SAMPLE_HOT];
+    interval.heatOut += sample[SAMPLE_COLD];
+    interval.temperature += this.particles.length > 0 ? v2 / (3 * this.particles.length) : 0;
+    if (interval.steps < CLASSIFIER_INTERVAL) return;
+
+    this.classifier.push({
+      time: this.time,
+      meanTemperature: interval.temperature / interval.steps,
+      heatIn: interval.heatIn / interval.steps,
+      heatOut: interval.heatOut / interval.steps,
+    });
+    this.interval = { steps: 0, heatIn: 0, heatOut: 0, temperature: 0 };
+  }
+
+  // Books `energy` as having moved from slice `from` to slice `to`.
+  private recordTransfer(from: number, to: number, energy: number) {
+    const sign = from < to ? 1 : -1;
+    for (let b = Math.min(from, to); b < Math.max(from, to); b++) {
+      this.sample[SAMPLE_BOUNDARY + b] += sign * energy;
+    }
+  }
+
+  private computeData(): SimulationData {
+    const mean = this.averages.mean();
+    const area = BOX_SIZE * BOX_SIZE;
+    const dx = BOX_SIZE / SLICES;
+
+    // Equipartition with unit mass and k_B = 1: T = <v^2> / 3.
+    const temperatureGradient = Array.from({ length: SLICES }, (_, k) => {
+      const count = mean[SAMPLE_COUNT + k];
+      return count > 0 ? mean[SAMPLE_V2 + k] / (3 * count) : 0;
+    });
+
+    // Fluxes are reported positive toward the cold wall (-x), i.e. along -grad T.
+    const boundaryHeatFlux = Array.from({ length: SLICES - 1 }, (_, b) => -mean[SAMPLE_BOUNDARY + b] / area);
+
+    // sigma = J . grad(1/T), evaluated on each boundary between slice centres.
+    const boundarySigma = boundaryHeatFlux.map((flux, b) => {
+      const cold = temperatureGradient[b];
+      const hot = temperatureGradient[b + 1];
+      return cold > 0 && hot > 0 ? (flux * (1 / cold - 1 / hot)) / dx : 0;
+    });
+    const localEntropyProduction = temperatureGradient.map((_, k) => {
+      const neighbors = [boundarySigma[k - 1], boundarySigma[k]].filter(v => v !== undefined);
+      return neighbors.reduce((a, b) => a + b, 0) / neighbors.length;
+    });
+    const entropyProduction = boundarySigma.reduce((total, sigma) => total + sigma * dx * area, 0);
+
+    // Fourier's law J = kappa * dT/dx, with dT/dx fit over the interior slices
+    // (the end slices sit next to the wall temperature jump).
+    const slope = fitSlope(temperatureGradient.slice(1, -1), dx);
+    const meanFlux = boundaryHeatFlux.reduce((a, b) => a + b, 0) / boundaryHeatFlux.length;
+    const thermalConductivity = slope > 1e-9 ? meanFlux / slope : 0;
+
+    return {
+      time: this.time,
+      temperatureGradient,
+      entropyProduction,
+      systemState: this.classifier.currentState,
+      heatFlux: { hot: mean[SAMPLE_HOT] / area, cold: mean[SAMPLE_COLD] / area },
+      boundaryHeatFlux,
+      localEntropyProduction,
+      thermalConductivity,
+      speedDistribution: this.computeSpeedDistribution(),
+      relaxationTime: this.classifier.currentRelaxationTime,
+      stateEvents: this.classifier.stateEvents,
+    };
+  }
+
+  // Instantaneous speed histograms for the whole gas and for each slice.
+  private computeSpeedDistribution(): SimulationData['speedDistribution'] {
+    const globalSpeeds: number[] = [];
+    const sliceSpeeds: number[][] = Array.from({ length: SLICES }, () => []);
+    this.particles.forEach(({ velocity }, i) => {
+      const speed = Math.sqrt(speedSq(velocity));
+      globalSpeeds.push(speed);
+      sliceSpeeds[this.particleSlices[i]].push(speed);
+    });
+    if (globalSpeeds.length === 0) return { binCenters: [], global: null, slices: [] };
+
+    const globalTemperature = globalSpeeds.reduce((sum, v) => sum + v * v, 0) / (3 * globalSpeeds.length);
+    const binWidth = (SPEED_RANGE * Math.sqrt(globalTemperature)) / SPEED_BINS || 1;
+    return {
+      binCenters: Array.from({ length: SPEED_BINS }, (_, i) => (i + 0.5) * binWidth),
+      global: buildSpeedHistogram(globalSpeeds, SPEED_BINS, binWidth),
+      slices: sliceSpeeds.map(speeds => buildSpeedHistogram(speeds, SPEED_BINS, binWidth)),
+    };
+  }
+
+  // Sends a particle that reached the hot or cold wall back into the box.
+  private reflectFromWall(velocity: Vec3, hot: boolean) {
+    const { wallModel, heat, hotTemperature, coldTemperature } = this.params;
+    const inward = hot ? -1 : 1;
+
+    if (wallModel === 'ad-hoc') {
+      velocity.x *= -1;
+      if (hot) velocity.x += Math.sign(velocity.x) * heat * 0.1;
+      const factor = hot ? 1.01 : 0.9;
+      velocity.x *= factor;
+      velocity.y *= factor;
+      velocity.z *= factor;
+      return;
+    }
+
+    const sigma = Math.sqrt(hot ? hotTemperature : coldTemperature);
+    const random = this.random;
+    velocity.y = sigma * random.gaussian();
+    velocity.z = sigma * random.gaussian();
+    if (wallModel === 'diffuse') {
+      // Flux-weighted normal component: particles leaving a wall at temperature T
+      // have a Rayleigh-distributed normal speed.
+      velocity.x = inward * sigma * Math.sqrt(-2 * Math.log(1 - random.next()));
+    } else {
+      velocity.x = inward * sigma * Math.abs(random.gaussian());
+    }
+  }
+
+  // Elastic hard-sphere collisions between overlapping, approaching pairs.
+  private collide() {
+    const { particles, grid, particleSlices } = this;
+    grid.clear();
+    particles.forEach(({ position }, i) => grid.insert(i, position.x, position.y, position.z));
+
+    particles.forEach((a, i) => {
+      const pa = a.position;
+      grid.forEachNear(pa.x, pa.y, pa.z, j => {
+        if (j <= i) return;
+        const b = particles[j];
+        const pb = b.position;
+        const dx = pa.x - pb.x;
+        const dy = pa.y - pb.y;
+        const dz = pa.z - pb.z;
+        const distSq = dx * dx + dy * dy + dz * dz;
+        const contact = (a.size + b.size) * PARTICLE_RADIUS_SCALE;
+        if (distSq >= contact * contact || distSq === 0) return;
+
+        const dist = Math.sqrt(distSq);
+        const nx = dx / dist;
+        const ny = dy / dist;
+        const nz = dz / dist;
+
+        // Separate the pair so it isn't resolved again next step.
+        const push = (contact - dist) / 2;
+        pa.x += nx * push; pa.y += ny * push; pa.z += nz * push;
+        pb.x -= nx * push; pb.y -= ny * push; pb.z -= nz * push;
+        clampToBox(pa);
+        clampToBox(pb);
+
+        const va = a.velocity;
+        const vb = b.velocity;
+        const approach = (va.x - vb.x) * nx + (va.y - vb.y) * ny + (va.z - vb.z) * nz;
+        if (approach >= 0) return;
+
+        // Equal masses: swap the velocity components along the line of centres.
+        const energyBefore = speedSq(va);
+        va.x -= approach * nx; va.y -= approach * ny; va.z -= approach * nz;
+        vb.x += approach * nx; vb.y += approach * ny; vb.z += approach * nz;
+        if (particleSlices[i] !== particleSlices[j]) {
+          this.recordTransfer(particleSlices[j], particleSlices[i], (speedSq(va) - energyBefore) / 2);
+        }
+      });
+    });
+  }
+
+  // Derived metrics are only computed when read, not on every step.
+  getData(): SimulationData {
+    if (this.dataIsStale) {
+      this.data = this.computeData();
+      this.dataIsStale = false;
+    }
+    return this.data;
+  }
+}
+
+// Least-squares slope of evenly spaced samples.
+function fitSlope(values: number[], spacing: number): number {
+  const n = values.length;
+  if (n < 2) return 0;
+  const meanIndex = (n - 1) / 2;
+  const meanValue = values.reduce((a, b) => a + b, 0) / n;
+  let covariance = 0;
+  let variance = 0;
+  values.forEach((value, i) => {
+    covariance += (i - meanIndex) * (value - meanValue);
+    variance += (i - meanIndex) ** 2;
+  });
+  return covariance / variance / spacing;
+}
+
+// Convenience for scripts and tests: run `steps` fixed steps from a fresh engine.
+export function runSimulation(params: SimulationParams, steps: number): SimulationData {
+  const engine = new ThermodynamicsEngine(params);
+  for (let i = 0; i < steps; i++) engine.step();
+  return engine.getData();
+}
@@ -0,0 +1,115 @@
+import type { BoidsParams, VicsekSweepPoint } from '../types';
+import { BOIDS_BOUNDS, BoidFlock } from './boids';
+import type { Threats } from './boids';
+import { NEUTRAL_INTERACTION, newSpecies } from './boidsSpecies';
+import { flockPolarization } from './flockAnalysis';
+import { SeededRandom } from './random';
+
+export const VICSEK_SWEEP_NOISES = Array.from({ length: 11 }, (_, k) => k / 10);
+export const VICSEK_SWEEP_COUNTS = [500, 1000, 2000];
+const SETTLE_STEPS = 200; // Run at every noise before the first measurement window
+const WINDOW_STEPS = 100;
+const MAX_STEPS = 1500; // Per noise; the last window is taken even if it has not settled
+const STEADY_TOLERANCE = 0.02; // Largest change in mean polarization between windows at steady state
+
+const NO_THREATS: Threats = { positions: new Float32Array(0), count: 0 };
+
+/**
+ * Steady-state polarization of the Vicsek model against noise, at the
+ * densities of VICSEK_SWEEP_COUNTS boids in the cube. Each count gets one
+ * flock, taken up through VICSEK_SWEEP_NOISES from an ordered start with
+ * every noise level starting from the state the last one left. At each
+ * level it runs SETTLE_STEPS, then windows of WINDOW_STEPS until the mean
+ * polarization of two successive windows differs by less than
+ * STEADY_TOLERANCE or MAX_STEPS have passed; the last window gives the
+ * point. `advance` does the work in slices so the page can keep drawing.
+ */
+export class VicsekSweep {
+  readonly points: VicsekSweepPoint[] = [];
+  private readonly params: BoidsParams;
+  private countIndex = 0;
+  private noiseIndex = 0;
+  private flock: BoidFlock | null = null;
+  private steps = 0; // At the current noise
+  private windowSum = 0;
+  private windowSumSq = 0;
+  private previousMean: number | null = null;
+
+  // Uses the perception radius, speed, boundary and obstacles of `params`,
+  // with a single species.
+  constructor(params: BoidsParams) {
+    this.params = {
+      ...params,
+      model: 'vicsek',
+      predatorMode: 'mouse',
+      species: [newSpecies(0)],
+      interactions: [[NEUTRAL_INTERACTION]],
+    };
+  }
+
+  get done(): boolean {
+    return this.countIndex >= VICSEK_SWEEP_COUNTS.length;
+  }
+
+  // Fraction of the noise levels finished.
+  get progress(): number {
+    const levels = VICSEK_SWEEP_COUNTS.length * VICSEK_SWEEP_NOISES.length;
+    return (this.countIndex * VICSEK_SWEEP_NOISES.length + this.noiseIndex) / levels;
+  }
+
+  // Steps the sweep for about `milliseconds`; returns whether it has finished.
+  advance(milliseconds: number): boolean {
+    const start = performance.now();
+    while (!this.done && performance.now() - start < milliseconds) this.stepOnce();
+    return this.done;
+  }
+
+  private stepOnce() {
+    const count = VICSEK_SWEEP_COUNTS[this.countIndex];
+    const noise = VICSEK_SWEEP_NOISES[this.noiseIndex];
+    if (!this.flock) {
+      this.flock = new BoidFlock({ ...this.params, count, noise }, new SeededRandom(count));
+      this.align(this.flock);
+    }
+    const flock = this.flock;
+    flock.step(NO_THREATS);
+    this.steps++;
+    if (this.steps <= SETTLE_STEPS) return;
+
+    const polarization = flockPolarization(flock);
+    this.windowSum += polarization;
+    this.windowSumSq += polarization * polarization;
+    if ((this.steps - SETTLE_STEPS) % WINDOW_STEPS !== 0) return;
+
+    const mean = this.windowSum / WINDOW_STEPS;
+    const variance = Math.max(0, this.windowSumSq / WINDOW_STEPS - mean * mean);
+    const settled = this.previousMean !== null && Math.abs(mean - this.previousMean) < STEADY_TOLERANCE;
+    this.windowSum = 0;
+    this.windowSumSq = 0;
+    this.previousMean = mean;
+    if (!settled && this.steps < MAX_STEPS) return;
+
+    this.points.push({
+      noise,
+      density: count / BOIDS_BOUNDS ** 3,
+      polarization: mean,
+      fluctuation: Math.sqrt(variance),
+      steps: this.steps,
+    });
+    this.steps = 0;
+    this.previousMean = null;
+    if (++this.noiseIndex < VICSEK_SWEEP_NOISES.length) {
+      flock.setParams({ noise: VICSEK_SWEEP_NOISES[this.noiseIndex] });
+    } else {
+      this.noiseIndex = 0;
+      this.countIndex++;
+      this.flock = null;
+    }
+  }
+
+  // Points every boid the same way, so low noise starts in the ordered phase.
+  private align(flock: BoidFlock) {
+    const speed = this.params.maxSpeed;
+    for (let i = 0; i < flock.count; i++) flock.velocities.set([speed, 0, 0], 3 * i);
+  }
+}
@@ -0,0 +1,259 @@
+import type { WaveStatistics } from '../types';
+import type { ExcitableModel } from './excitableMedia';
+
+const TIP_STRIDE = 2; // Texels per cell of the phase grid searched for singularities
+const MERGE_RADIUS = 3; // Phase-grid cells; singular plaquettes this close belong to one core
+const PROBE_STRIDE = 4; // Texels between activation-time probes
+const GRADIENT_SPAN = 3; // Probes between the points of a front-gradient estimate
+const MAX_TIP_JUMP = 0.05; // UV distance a tip may move between analyses and keep its track
+const MAX_MISSED = 5; // Analyses a track survives without a matching tip
+const MAX_TRAIL_POINTS = 400;
+const MAX_SAMPLES = 2000; // Recent period and speed samples kept for the medians
+// Below this fraction of the display range of u the field counts as quiescent
+// and has no meaningful phase.
+const MIN_EXCITATION_SPAN = 0.5;
+
+// Position in UV coordinates; charge is the winding number of the phase, ±1.
+export interface PhaseSingularity {
+  x: number;
+  y: number;
+  charge: number;
+}
+
+export interface TipTrack {
+  id: number;
+  charge: number;
+  points: { x: number; y: number }[]; // Oldest first, at most MAX_TRAIL_POINTS
+  missed: number; // Consecutive analyses without a matching tip
+}
+
+// Wraps an angle difference into (-π, π].
+const wrapAngle = (angle: number) => angle - 2 * Math.PI * Math.round(angle / (2 * Math.PI));
+
+const median = (values: number[]): number | null => {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = sorted.length >> 1;
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+};
+
+const pushSample = (samples: number[], value: number) => {
+  samples.push(value);
+  if (samples.length > MAX_SAMPLES) samples.splice(0, samples.length - MAX_SAMPLES);
+};
+
+/**
+ * Spiral cores as phase singularities of RGBA texel data (u in red, v in
+ * green). The phase of each cell is its angle in the (u, v) plane around
+ * `centre`, which must lie inside the loop that excitation and recovery
+ * trace; summing phase differences around each plaquette of the grid gives
+ * ±2π where a core sits inside it and 0 elsewhere.
+ */
+export function findPhaseSingularities(
+  data: ArrayLike<number>,
+  size: number,
+  centre: [number, number],
+  stride = TIP_STRIDE,
+): PhaseSingularity[] {
+  const cells = Math.floor(size / stride);
+  const phase = new Float32Array(cells * cells);
+  for (let j = 0; j < cells; j++) {
+    for (let i = 0; i < cells; i++) {
+      const texel = (j * stride * size + i * stride) * 4;
+      phase[j * cells + i] = Math.atan2(data[texel + 1] - centre[1], data[texel] - centre[0]);
+    }
+  }
+
+  const clusters: { x: number; y: number; count: number; charge: number }[] = [];
+  for (let j = 0; j < cells - 1; j++) {
+    for (let i = 0; i < cells - 1; i++) {
+      const k = j * cells + i;
+      const a = phase[k];
+      const b = phase[k + 1];
+      const c = phase[k + cells + 1];
+      const d = phase[k + cells];
+      const winding = wrapAngle(b - a) + wrapAngle(c - b) + wrapAngle(d - c) + wrapAngle(a - d);
+      if (Math.abs(winding) < Math.PI) continue;
+      const charge = Math.sign(winding);
+      const x = i + 0.5;
+      const y = j + 0.5;
+      const cluster = clusters.find(c => Math.hypot(c.x / c.count - x, c.y / c.count - y) < MERGE_RADIUS);
+      if (cluster) {
+        cluster.x += x;
+        cluster.y += y;
+        cluster.count++;
+        cluster.charge += charge;
+      } else {
+        clusters.push({ x, y, count: 1, charge });
+      }
+    }
+  }
+
+  // Opposite charges in one cluster are noise around a core or a pair
+  // annihilating; only a net winding is a spiral.
+  return clusters
+    .filter(c => c.charge !== 0)
+    .map(c => ({
+      x: ((c.x / c.count) * stride + 0.5) / size,
+      y: ((c.y / c.count) * stride + 0.5) / size,
+      charge: Math.sign(c.charge),
+    }));
+}
+
+/**
+ * Wave measurements from successive readbacks of an excitable medium.
+ * Spiral tips are tracked from analysis to analysis by nearest neighbour.
+ * A coarse grid of probes records when u last rose through the middle of
+ * the display range: the intervals between those times give the period,
+ * and the gradient of activation time across a front gives its speed.
+ */
+export class WaveAnalyzer {
+  readonly size: number;
+  readonly model: ExcitableModel;
+  private readonly probes: number; // Per side
+  private readonly previousU: Float32Array;
+  private readonly activation: Float64Array;
+  private previousTime = NaN;
+  private intervals: number[] = [];
+  private speeds: number[] = [];
+  private trackList: TipTrack[] = [];
+  private nextTrackId = 1;
+
+  constructor(size: number, model: ExcitableModel) {
+    this.size = size;
+    this.model = model;
+    this.probes = Math.floor(size / PROBE_STRIDE);
+    this.previousU = new Float32Array(this.probes * this.probes);
+    this.activation = new Float64Array(this.probes * this.probes);
+    this.reset();
+  }
+
+  get tracks(): readonly TipTrack[] {
+    return this.trackList;
+  }
+
+  reset() {
+    this.previousU.fill(NaN);
+    this.activation.fill(NaN);
+    this.previousTime = NaN;
+    this.intervals = [];
+    this.speeds = [];
+    this.trackList = [];
+  }
+
+  // `time` is model time; a time earlier than the last one means the
+  // simulation restarted, and the history is discarded.
+  analyse(data: ArrayLike<number>, time: number): WaveStatistics {
+    if (time < this.previousTime) this.reset();
+    if (!(time <= this.previousTime)) this.recordActivations(data, time);
+
+    const centre = this.phaseCentre(data);
+    const tips = centre ? findPhaseSingularities(data, this.size, centre) : [];
+    this.trackTips(tips);
+
+    const rotationPeriod = median(this.intervals);
+    const waveSpeed = median(this.speeds);
+    return {
+      time,
+      spiralCount: tips.length,
+      rotationPeriod,
+      waveSpeed,
+      wavelength: rotationPeriod !== null && waveSpeed !== null ? rotationPeriod * waveSpeed : null,
+    };
+  }
+
+  // Mid-range of the field in the (u, v) plane, or null for a quiescent field.
+  private phaseCentre(data: ArrayLike<number>): [number, number] | null {
+    let minU = Infinity;
+    let maxU = -Infinity;
+    let minV = Infinity;
+    let maxV = -Infinity;
+    for (let texel = 0; texel < data.length; texel += 4 * TIP_STRIDE) {
+      minU = Math.min(minU, data[texel]);
+      maxU = Math.max(maxU, data[texel]);
+      minV = Math.min(minV, data[texel + 1]);
+      maxV = Math.max(maxV, data[texel + 1]);
+    }
+    const [low, high] = this.model.displayRange;
+    if (maxU - minU < MIN_EXCITATION_SPAN * (high - low)) return null;
+    return [(minU + maxU) / 2, (minV + maxV) / 2];
+  }
+
+  private recordActivations(data: ArrayLike<number>, time: number) {
+    const { probes, previousU, activation, previousTime } = this;
+    const [low, high] = this.model.displayRange;
+    const threshold = (low + high) / 2;
+    const crossed: number[] = [];
+    for (let j = 0; j < probes; j++) {
+      for (let i = 0; i < probes; i++) {
+        const p = j * probes + i;
+        const u = data[(j * PROBE_STRIDE * this.size + i * PROBE_STRIDE) * 4];
+        const previous = previousU[p];
+        previousU[p] = u;
+        if (!(previous < threshold && u >= threshold)) continue;
+        // Interpolate the crossing between the two readbacks.
+        const t = previousTime + ((threshold - previous) / (u - previous)) * (time - previousTime);
+        if (!Number.isNaN(activation[p])) pushSample(this.intervals, t - activation[p]);
+        activation[p] = t;
+        crossed.push(p);
+      }
+    }
+    this.previousTime = time;
+
+    // Probes activated more than half a period apart belong to different waves.
+    const period = median(this.intervals);
+    const lagLimit = period === null ? Infinity : period / 2;
+    const span = GRADIENT_SPAN * PROBE_STRIDE * this.model.gridSpacing;
+    for (const p of crossed) {
+      const gx = this.activationSlope(p, 1, p % probes, lagLimit);
+      const gy = this.activationSlope(p, probes, Math.floor(p / probes), lagLimit);
+      if (gx === null || gy === null) continue;
+      const gradient = Math.hypot(gx, gy) / span;
+      if (gradient > 0) pushSample(this.speeds, 1 / gradient);
+    }
+  }
+
+  // Change in activation time over GRADIENT_SPAN probes along one axis,
+  // averaged over the sides where the neighbour belongs to the same wave.
+  private activationSlope(p: number, step: number, coordinate: number, lagLimit: number): number | null {
+    const t = this.activation[p];
+    let sum = 0;
+    let count = 0;
+    for (const side of [-1, 1]) {
+      const neighbour = coordinate + side * GRADIENT_SPAN;
+      if (neighbour < 0 || neighbour >= this.probes) continue;
+      const other = this.activation[p + side * GRADIENT_SPAN * step];
+      if (!(Math.abs(other - t) < lagLimit)) continue;
+      sum += side * (other - t);
+      count++;
+    }
+    return count > 0 ? sum / count : null;
+  }
+
+  private trackTips(tips: PhaseSingularity[]) {
+    const unmatched = new Set(this.trackList);
+    for (const tip of tips) {
+      let nearest: TipTrack | null = null;
+      let nearestDistance = MAX_TIP_JUMP;
+      for (const track of unmatched) {
+        if (track.charge !== tip.charge) continue;
+        const last = track.points[track.points.length - 1];
+        const distance = Math.hypot(last.x - tip.x, last.y - tip.y);
+        if (distance < nearestDistance) {
+          nearest = track;
+          nearestDistance = distance;
+        }
+      }
+      if (nearest) {
+        unmatched.delete(nearest);
+        nearest.points.push({ x: tip.x, y: tip.y });
+        if (nearest.points.length > MAX_TRAIL_POINTS) nearest.points.shift();
+        nearest.missed = 0;
+      } else {
+        this.trackList.push({ id: this.nextTrackId++, charge: tip.charge, points: [{ x: tip.x, y: tip.y }], missed: 0 });
+      }
+    }
+    for (const track of unmatched) track.missed++;
+    this.trackList = this.trackList.filter(track => track.missed <= MAX_MISSED);
+  }
+}
@@ -0,0 +1,49 @@
+/**
+ * Sliding-window mean over fixed-length numeric samples. Keeps a ring
+ * buffer of the last `window` samples plus running sums, so push() and
+ * mean() are O(width) regardless of the window length.
+ */
+export class WindowedAverage {
+  readonly width: number;
+  readonly window: number;
+  private readonly buffer: Float64Array;
+  private readonly sums: Float64Array;
+  private cursor = 0;
+  private filled = 0;
+
+  constructor(width: number, window: number) {
+    this.width = width;
+    this.window = Math.max(1, Math.floor(window));
+    this.buffer = new Float64Array(this.width * this.window);
+    this.sums = new Float64Array(width);
+  }
+
+  get count(): number {
+    return this.filled;
+  }
+
+  push(sample: ArrayLike<number>) {
+    const offset = this.cursor * this.width;
+    for (let i = 0; i < this.width; i++) {
+      if (this.filled === this.window) this.sums[i] -= this.buffer[offset + i];
+      this.buffer[offset + i] = sample[i];
+      this.sums[i] += sample[i];
+    }
+    this.cursor = (this.cursor + 1) % this.window;
+    this.filled = Math.min(this.filled + 1, this.window);
+  }
+
+  // Running sums drift slightly under float error; callers needing exact
+  // zeros should threshold rather than compare.
+  mean(out: Float64Array = new Float64Array(this.width)): Float64Array {
+    const n = Math.max(1, this.filled);
+    for (let i = 0; i < this.width; i++) out[i] = this.sums[i] / n;
+    return out;
+  }
+
+  clear() {
+    this.sums.fill(0);
+    this.cursor = 0;
+    this.filled = 0;
+  }
+}
@@ -1,17 +1,237 @@
+export type VisualizationType = 'thermodynamics' | 'reaction-diffusion' | 'bz-reaction' | 'boids' | 'convection-cells';
+
+
+// How the hot (+x) and cold (-x) walls exchange energy with particles:
+// 'ad-hoc' scales speeds by fixed factors (legacy), 'diffuse' re-emits
+// particles with Maxwell-Boltzmann velocities at the wall temperature, and
+// 'andersen' resamples the full velocity from that distribution.
+export type WallModel = 'ad-hoc' | 'diffuse' | 'andersen';
 
 export interface SimulationParams {
   particleCount: number;
-  heat: number; // Represents energy input at the hot wall
+  heat: number; // Represents energy input at the hot wall ('ad-hoc' walls only)
   isPaused: boolean;
+  seed: number; // Seeds the particle RNG so runs are reproducible
+  wallModel: WallModel;
+  hotTemperature: number; // Kinetic temperature of the +x wall, <v^2>/3 with unit mass
+  coldTemperature: number; // Kinetic temperature of the -x wall
+  averagingWindow: number; // Steps over which fluxes and temperatures are time-averaged
+}
+
+export interface SpeedHistogram {
+  density: number[]; // Empirical probability density of particle speed per bin
+  fit: number[]; // Maxwell-Boltzmann density at the bin centres for the fitted temperature
+  temperature: number; // Fitted temperature, <v^2>/3
+  klDivergence: number; // Bias-corrected KL divergence from the fit: distance from local equilibrium
+}
+
+export type SystemState = 'Initializing' | 'Relaxing' | 'Near Equilibrium' | 'Steady State' | 'Chaotic';
+
+export interface StateChangeEvent {
+  id: number; // Increases with every event, across resets
+  time: number; // Simulation step at which the new state was confirmed
+  from: SystemState;
+  to: SystemState;
+  reason: string;
 }
 
+// Rates are per simulation step; heat fluxes are per unit wall area and
+// positive in the hot-to-cold direction. Flux, temperature and entropy
+// values are averaged over `SimulationParams.averagingWindow` steps.
 export interface SimulationData {
-  temperatureGradient: number[];
-  entropyProduction: number;
-  systemState: 'Initializing' | 'Near Equilibrium' | 'Steady State' | 'Chaotic';
+  time: number; // Steps since the engine was (re)initialised
+  temperatureGradient: number[]; // Kinetic temperature per slice, cold (-x) to hot (+x)
+  entropyProduction: number; // Total bulk entropy production rate, sum of sigma over the volume
+  systemState: SystemState; // Windowed, hysteretic classification; see SystemStateClassifier
+  heatFlux: { hot: number; cold: number }; // Heat entering at the hot wall and leaving at the cold wall
+  boundaryHeatFlux: number[]; // Net conducted flux through each of the SLICES - 1 slice boundaries
+  localEntropyProduction: number[]; // sigma = J . grad(1/T) per slice
+  thermalConductivity: number; // Effective kappa from Fourier's law, 0 when there is no gradient
+  speedDistribution: { // Instantaneous, not window-averaged
+    binCenters: number[];
+    global: SpeedHistogram | null;
+    slices: SpeedHistogram[];
+  };
+  relaxationTime: number | null; // Steps taken to reach the last stationary state, null until one is reached
+  stateEvents: StateChangeEvent[]; // Most recent state transitions, oldest first
 }
 
 export interface ReactionDiffusionParams {
   feed: number;
   kill: number;
 }
+
+export type BrushMode = 'add-v' | 'remove-v' | 'reset-u' | 'draw-obstacle' | 'erase-obstacle';
+
+export interface BrushSettings {
+  enabled: boolean; // Drags paint the surface instead of orbiting the camera
+  mode: BrushMode;
+  radius: number; // Fraction of the tube circumference
+  softness: number; // 0 = hard edge, 1 = falloff across the whole radius
+}
+
+// How the grid-based fields treat neighbours beyond their edges: wrapped
+// (periodic), mirrored so no flux crosses (Neumann) or held fixed (Dirichlet).
+export type BoundaryMode = 'periodic' | 'neumann' | 'dirichlet';
+
+export interface BoundaryCondition {
+  mode: BoundaryMode;
+  value: [number, number]; // (u, v) outside the grid, used by 'dirichlet'
+}
+
+// Stamps for the obstacle mask of the field scenes; cells under the mask
+// take no part in the reaction and block diffusion (no-flux walls).
+export type ObstaclePreset = 'none' | 'slit' | 'maze' | 'ring' | 'pillars';
+
+// Excitable-medium kinetics for the BZ scene.
+export type BZModel = 'barkley' | 'oregonator' | 'fitzhugh-nagumo';
+
+// Live settings for the BZ scene, applied through shader uniforms. Defaults
+// come from the selected model (see defaultBZParams).
+export interface BZParams {
+  kinetics: [number, number, number]; // The model's kinetic parameters, in ExcitableModel.parameters order
+  diffusion: number; // Diffusion coefficient of u
+  dt: number; // Model time per step
+  stepsPerFrame: number;
+  stimulusRadius: number; // Radius of the disc a click excites, in UV units
+  displacementScale: number; // Height of the surface at full excitation
+}
+
+// What pressing on the BZ surface does; the obstacle tools paint while dragging.
+export type BZPointerTool = 'stimulate' | 'draw-obstacle' | 'erase-obstacle';
+
+export interface BZPointerSettings {
+  tool: BZPointerTool;
+  obstacleRadius: number; // Radius of the obstacle brush, in UV units
+}
+
+// Measured from GPU readbacks of the BZ field. Times and lengths are in the
+// model's own units: time as integrated by the kinetics, length in units of
+// its diffusion length. Null until enough waves have passed to measure.
+export interface WaveStatistics {
+  time: number; // Model time of the analysed readback
+  spiralCount: number; // Phase singularities, one per spiral core
+  rotationPeriod: number | null; // Median time between successive excitations of a point
+  waveSpeed: number | null; // Median front propagation speed
+  wavelength: number | null; // Speed times period
+}
+
+export type InitialConditionKind = 'square' | 'noise' | 'seeds' | 'rings' | 'stripes' | 'broken-wave' | 'text' | 'image';
+
+// Greyscale image in [0, 1], row 0 at the bottom like texture data.
+export interface GrayImage {
+  width: number;
+  height: number;
+  values: Float32Array;
+}
+
+export interface InitialCondition {
+  kind: InitialConditionKind;
+  seed: number; // Seeds the random generators so a start can be replayed
+  amplitude: number; // Peak V for noise, seeds, rings, stripes, text and image
+  count: number; // Number of seed patches, rings or stripes
+  patchSize: number; // Seed patch, central square or broken-wave half-width, in texels
+  text: string;
+  image: GrayImage | null; // Uploaded PNG, used as the V channel
+}
+
+export interface HistorySettings {
+  length: number; // Maximum number of samples kept
+  sampleInterval: number; // Simulation steps between recorded samples
+}
+
+export interface BoidsBenchmarkResult {
+  count: number; // Boids in the benchmark flock
+  stepMilliseconds: number; // Mean wall-clock time of one flocking step
+}
+
+// Reynolds' steering rules, or the Vicsek model: constant speed and noisy
+// alignment with every neighbour in range, nothing else.
+export type BoidsModel = 'reynolds' | 'vicsek';
+
+// What happens at the faces of the boids cube: wrap to the opposite face,
+// bounce off, or bounce off after steering away from it in advance.
+export type BoidsBoundary = 'periodic' | 'reflect' | 'steer';
+
+export type BoidsObstacleKind = 'sphere' | 'column' | 'ground';
+
+export interface BoidsObstacle {
+  kind: BoidsObstacleKind;
+  position: [number, number, number]; // Centre of a sphere; a vertical column uses x and z, the ground plane y
+  radius: number; // Unused by the ground plane
+}
+
+export interface BoidSpecies {
+  color: string; // CSS hex colour of its boids
+  share: number; // Relative share of the flock
+  speed: number; // Multiplies the minimum and maximum speed
+  perception: number; // Multiplies the perception radius
+}
+
+// Factors on another species' contribution to each rule of one species;
+// a negative factor counts that species' heading or position in reverse.
+export interface SpeciesInteraction {
+  alignment: number;
+  cohesion: number;
+  separation: number;
+}
+
+export type PredatorMode = 'mouse' | 'autonomous';
+export type PredatorTargeting = 'nearest' | 'isolated';
+
+// The steering rules the flocking presets set.
+export interface FlockingRules {
+  minSpeed: number; // Slower boids are sped up to it; 0 lets them stop
+  maxSpeed: number; // Distance per step
+  maxForce: number; // Largest change in velocity per step from any one rule
+  cohesionWeight: number;
+  alignmentWeight: number;
+  separationWeight: number;
+  perceptionRadius: number; // Boids closer than this are flockmates
+  separationDistance: number; // Flockmates closer than this are pushed away
+  predatorWeight: number;
+  predatorRadius: number; // Boids within this distance of a predator flee
+}
+
+export interface BoidsParams extends FlockingRules {
+  count: number; // Initial flock size and carrying capacity; changing it rebuilds the flock
+  model: BoidsModel;
+  noise: number; // Vicsek angular noise η: headings turn by up to η × π at random each step
+  species: BoidSpecies[]; // Changing their number or shares reassigns every boid at random
+  interactions: SpeciesInteraction[][]; // interactions[a][b]: how species a responds to species b
+  boundary: BoidsBoundary;
+  obstacles: BoidsObstacle[];
+  avoidanceWeight: number; // Weight of steering around obstacles and, with 'steer', away from the faces
+  lookAhead: number; // Distance ahead along its heading a boid checks for obstacles and faces
+  predatorMode: PredatorMode; // One predator following the pointer, or a hunting pack
+  predatorCount: number; // Hunters released when the populations restart
+  predatorTargeting: PredatorTargeting;
+  predatorSpeed: number;
+  confusion: number; // Capture odds fall as 1 / (1 + confusion × flockmates of the target)
+  predatorStarvation: number; // Steps a hunter survives without a capture
+  predatorBirthMeals: number; // Captures a hunter needs to produce another
+  reproductionRate: number; // Births per boid per step while the flock is far below capacity
+}
+
+// One steady state of a Vicsek noise sweep.
+export interface VicsekSweepPoint {
+  noise: number;
+  density: number; // Boids per unit volume
+  polarization: number; // Mean over the measurement window
+  fluctuation: number; // Standard deviation of the polarization over that window
+  steps: number; // Steps run at this noise, including the wait for steady state
+}
+
+export interface FlockStatistics {
+  time: number; // Steps since the flock was built
+  polarization: number; // Length of the mean heading: 1 when all boids fly the same way
+  milling: number; // Angular momentum of each flock about its centroid, normalised so a perfect mill is 1
+  meanNearestNeighbour: number | null; // Over boids with a flockmate in perception range
+  nearestNeighbour: { binCenters: number[]; fractions: number[] }; // Fraction of all boids per distance bin
+  isolatedFraction: number; // Boids with no flockmate in perception range
+  flockSizes: number[]; // Proximity clusters of at least MIN_FLOCK_SIZE boids, largest first
+  preyCount: number;
+  speciesCounts: number[];
+  mixing: number | null; // 1 when flockmates are of each species in proportion to the flock, 0 when species never flock together; null with one species
+  predatorCount: number; // Hunters alive; 0 while the pointer drives the predator
+}